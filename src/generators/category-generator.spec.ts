@@ -0,0 +1,63 @@
+import { CategoryGenerator } from './category-generator';
+import { ControllerMetadata } from '../interfaces';
+
+describe('CategoryGenerator', () => {
+  let generator: CategoryGenerator;
+
+  const createController = (name: string, filePath: string, category: string): ControllerMetadata => ({
+    name,
+    path: name.toLowerCase(),
+    filePath,
+    category,
+    routes: [],
+  });
+
+  const controllers = [
+    createController('AuthController', '/app/src/admin/auth/auth.controller.ts', 'Admin - Auth'),
+    createController('InvoicesController', '/app/src/billing/invoices/invoices.controller.ts', 'Billing - Invoices'),
+    createController('UsersController', '/app/src/modules/users/users.controller.ts', 'Users'),
+  ];
+
+  beforeEach(() => {
+    generator = new CategoryGenerator();
+  });
+
+  describe('applyCategoryMapping', () => {
+    it('should rename categories by name', () => {
+      const mapped = generator.applyCategoryMapping(controllers, { 'admin': 'Administration' });
+
+      expect(mapped.map(c => c.category)).toEqual(['Administration', 'Billing - Invoices', 'Users']);
+    });
+
+    it('should map glob keys against controller file paths', () => {
+      const mapped = generator.applyCategoryMapping(controllers, { 'src/billing/**': 'Billing' });
+
+      expect(mapped.map(c => c.category)).toEqual(['Admin - Auth', 'Billing', 'Users']);
+    });
+
+    it('should apply the first matching rule with regex capture groups', () => {
+      const mapped = generator.applyCategoryMapping(controllers, [
+        { match: '**/admin/**', category: 'Administration' },
+        { match: /modules\/(\w+)\//, category: 'Module $1' },
+        { match: /src\/(\w+)\//, category: 'Other $1' },
+      ]);
+
+      expect(mapped.map(c => c.category)).toEqual(['Administration', 'Other billing', 'Module users']);
+    });
+
+    it('should put controllers under every category returned by a callback', () => {
+      const mapped = generator.applyCategoryMapping(controllers, controller => {
+        if (controller.name === 'AuthController') return ['Auth', 'Admin'];
+        if (controller.name === 'UsersController') return 'People';
+        return undefined;
+      });
+
+      expect(mapped[0]).toMatchObject({ category: 'Auth', categories: ['Auth', 'Admin'] });
+      expect(mapped[1]).toBe(controllers[1]);
+      expect(mapped[2]).toMatchObject({ category: 'People', categories: undefined });
+
+      expect(generator.getCategories(mapped)).toEqual(['Admin', 'Auth', 'Billing - Invoices', 'People']);
+      expect(generator.groupByCategory(mapped)['Admin'].map(c => c.name)).toEqual(['AuthController']);
+    });
+  });
+});
@@ -1,30 +1,92 @@
 import { Injectable } from '@nestjs/common';
 import { ControllerMetadata } from '../interfaces';
-import { AutoDocsOptions } from '../interfaces/options.interface';
+import { CategoryMapping, CategoryMappingRule } from '../interfaces/options.interface';
+import { matchesGlob } from '../utils/glob';
 
 @Injectable()
 export class CategoryGenerator {
   /**
    * Apply category mapping from configuration
+   * Examples:
+   * - { 'Admin Auth': 'Authentication' } -> category renamed
+   * - { 'src/billing/**': 'Billing' } -> controllers under src/billing
+   * - [{ match: /modules\/(\w+)\//, category: 'Module $1' }] -> 'Module users'
+   * - controller => ['Users', 'Admin'] -> listed under both tags
    */
   applyCategoryMapping(
     controllers: ControllerMetadata[],
-    categoryMapping?: Record<string, string>,
+    categoryMapping?: CategoryMapping,
   ): ControllerMetadata[] {
     if (!categoryMapping) {
       return controllers;
     }
 
     return controllers.map(controller => {
-      const mappedCategory = this.findMappedCategory(controller.category, categoryMapping);
+      const mappedCategories = this.findMappedCategories(controller, categoryMapping);
+
+      if (mappedCategories.length === 0) {
+        return controller;
+      }
 
       return {
         ...controller,
-        category: mappedCategory || controller.category,
+        category: mappedCategories[0],
+        categories: mappedCategories.length > 1 ? mappedCategories : undefined,
       };
     });
   }
 
+  /**
+   * Get the categories of a controller from a mapping of any supported form
+   */
+  private findMappedCategories(controller: ControllerMetadata, mapping: CategoryMapping): string[] {
+    if (typeof mapping === 'function') {
+      const result = mapping(controller);
+      const categories = Array.isArray(result) ? result : [result];
+      return Array.from(new Set(categories.filter((category): category is string => !!category)));
+    }
+
+    if (Array.isArray(mapping)) {
+      for (const rule of mapping) {
+        const category = this.matchRule(controller.filePath, rule);
+        if (category) return [category];
+      }
+      return [];
+    }
+
+    // Glob keys match the file path; other keys match the detected category
+    for (const [pattern, category] of Object.entries(mapping)) {
+      if (this.isGlob(pattern) && matchesGlob(controller.filePath, pattern)) {
+        return [category];
+      }
+    }
+
+    const mappedCategory = this.findMappedCategory(controller.category, mapping);
+    return mappedCategory ? [mappedCategory] : [];
+  }
+
+  /**
+   * Match a mapping rule against a controller file path
+   * Regex capture groups are substituted into the category ($1, $2, ...)
+   */
+  private matchRule(filePath: string, rule: CategoryMappingRule): string | undefined {
+    if (typeof rule.match === 'string') {
+      return matchesGlob(filePath, rule.match) ? rule.category : undefined;
+    }
+
+    const match = filePath.replace(/\\/g, '/').match(rule.match);
+    if (!match) return undefined;
+
+    return rule.category.replace(/\$(\d+)/g, (_, index) => match[Number(index)] ?? '');
+  }
+
+  /**
+   * Check if a mapping key is a glob pattern rather than a category name
+   */
+  private isGlob(pattern: string): boolean {
+    return /[*?{]/.test(pattern);
+  }
+
   /**
    * Find mapped category from configuration
    * Supports exact match and partial match
@@ -43,6 +105,8 @@ export class CategoryGenerator {
 
     // Check for normalized match
     for (const [key, value] of Object.entries(mapping)) {
+      if (this.isGlob(key)) continue;
+
       const normalizedKey = key.toLowerCase().replace(/[\s-]+/g, '');
 
       if (normalizedCategory === normalizedKey) {
@@ -65,8 +129,10 @@ export class CategoryGenerator {
     const categories = new Set<string>();
 
     for (const controller of controllers) {
-      if (controller.category) {
-        categories.add(controller.category);
+      for (const category of controller.categories || [controller.category]) {
+        if (category) {
+          categories.add(category);
+        }
       }
     }
 
@@ -75,18 +141,19 @@ export class CategoryGenerator {
 
   /**
    * Group controllers by category
+   * Controllers with several categories appear in each group
    */
   groupByCategory(controllers: ControllerMetadata[]): Record<string, ControllerMetadata[]> {
     const grouped: Record<string, ControllerMetadata[]> = {};
 
     for (const controller of controllers) {
-      const category = controller.category || 'Uncategorized';
+      for (const category of controller.categories || [controller.category || 'Uncategorized']) {
+        if (!grouped[category]) {
+          grouped[category] = [];
+        }
 
-      if (!grouped[category]) {
-        grouped[category] = [];
+        grouped[category].push(controller);
       }
-
-      grouped[category].push(controller);
     }
 
     return grouped;
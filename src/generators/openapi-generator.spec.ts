@@ -1,5 +1,5 @@
 import { OpenApiGenerator } from './openapi-generator';
-import { ControllerMetadata, RouteMetadata } from '../interfaces';
+import { ControllerMetadata, RouteMetadata, DtoMetadata, TypeMetadata } from '../interfaces';
 import { AutoDocsOptions } from '../interfaces/options.interface';
 
 describe('OpenApiGenerator', () => {
@@ -316,6 +316,50 @@ describe('OpenApiGenerator', () => {
       expect(spec.tags).toHaveLength(1);
       expect(spec.tags?.[0].name).toBe('Admin');
     });
+
+    it('should tag operations with every mapped category', () => {
+      const controllers: ControllerMetadata[] = [
+        {
+          name: 'AdminUsersController',
+          path: 'admin/users',
+          filePath: 'src/admin/users/users.controller.ts',
+          category: 'Users',
+          categories: ['Users', 'Admin'],
+          routes: [
+            {
+              name: 'findAll',
+              httpMethod: 'GET',
+              path: '',
+              fullPath: '/admin/users',
+              isPublic: false,
+            } as RouteMetadata,
+          ],
+        },
+      ];
+
+      const spec = generator.generate(controllers, { title: 'Test API', version: '1.0' });
+
+      expect(spec.paths['admin/users'].get?.tags).toEqual(['Users', 'Admin']);
+      expect(spec.tags?.map(t => t.name)).toEqual(['Admin', 'Users']);
+    });
+
+    it('should order tags by tagOrder with unlisted tags alphabetically', () => {
+      const controllers: ControllerMetadata[] = ['Admin', 'Billing', 'Auth', 'Users'].map(category => ({
+        name: `${category}Controller`,
+        path: category.toLowerCase(),
+        filePath: `src/${category.toLowerCase()}/${category.toLowerCase()}.controller.ts`,
+        category,
+        routes: [{ name: 'findAll', httpMethod: 'GET', path: '', fullPath: `/${category.toLowerCase()}`, isPublic: true } as RouteMetadata],
+      }));
+
+      const spec = generator.generate(controllers, {
+        title: 'Test API',
+        version: '1.0',
+        tagOrder: ['Users', 'Auth', 'Missing'],
+      });
+
+      expect(spec.tags?.map(t => t.name)).toEqual(['Users', 'Auth', 'Admin', 'Billing']);
+    });
   });
 
   describe('generate - security schemes', () => {
@@ -349,6 +393,724 @@ describe('OpenApiGenerator', () => {
 
       expect(spec.components?.securitySchemes).toBeUndefined();
     });
+
+    const createGuardedControllers = (): ControllerMetadata[] => [
+      {
+        name: 'OrdersController',
+        path: 'orders',
+        filePath: 'src/orders/orders.controller.ts',
+        category: 'Orders',
+        guards: ['JwtAuthGuard'],
+        routes: [
+          { name: 'findAll', httpMethod: 'GET', path: '', fullPath: '/orders', isPublic: false } as RouteMetadata,
+          {
+            name: 'sync',
+            httpMethod: 'POST',
+            path: 'sync',
+            fullPath: '/orders/sync',
+            guards: ['new ApiKeyGuard()'],
+            isPublic: false,
+          } as RouteMetadata,
+          {
+            name: 'health',
+            httpMethod: 'GET',
+            path: 'health',
+            fullPath: '/orders/health',
+            isPublic: true,
+          } as RouteMetadata,
+        ],
+      },
+      {
+        name: 'SessionController',
+        path: 'session',
+        filePath: 'src/session/session.controller.ts',
+        category: 'Session',
+        routes: [
+          {
+            name: 'current',
+            httpMethod: 'GET',
+            path: 'current',
+            fullPath: '/session/current',
+            guards: ['SessionGuard', 'RolesGuard'],
+            isPublic: false,
+          } as RouteMetadata,
+          { name: 'open', httpMethod: 'GET', path: 'open', fullPath: '/session/open', isPublic: false } as RouteMetadata,
+        ],
+      },
+    ];
+
+    const securitySchemes: AutoDocsOptions['securitySchemes'] = {
+      bearer: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', guards: ['JwtAuthGuard'] },
+      apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key', guards: ['ApiKeyGuard'] },
+      session: { type: 'apiKey', in: 'cookie', name: 'sid', guards: ['SessionGuard'] },
+    };
+
+    it('should emit configured securitySchemes without guard mapping', () => {
+      const spec = generator.generate([], { title: 'Test API', version: '1.0', securitySchemes });
+
+      expect(spec.components?.securitySchemes).toEqual({
+        bearer: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+        session: { type: 'apiKey', in: 'cookie', name: 'sid' },
+      });
+    });
+
+    it('should derive operation security from controller and route guards', () => {
+      const spec = generator.generate(createGuardedControllers(), { title: 'Test API', version: '1.0', securitySchemes });
+
+      expect(spec.paths['orders'].get?.security).toEqual([{ bearer: [] }]);
+      expect(spec.paths['orders/sync'].post?.security).toEqual([{ bearer: [], apiKey: [] }]);
+      expect(spec.paths['orders/health'].get?.security).toBeUndefined();
+      expect(spec.paths['session/current'].get?.security).toEqual([{ session: [] }]);
+      expect(spec.paths['session/open'].get?.security).toBeUndefined();
+    });
+
+    it('should list alternatives when a guard accepts several schemes', () => {
+      const spec = generator.generate(createGuardedControllers(), {
+        title: 'Test API',
+        version: '1.0',
+        securitySchemes: {
+          bearer: { type: 'http', scheme: 'bearer', guards: ['JwtAuthGuard', 'ApiKeyGuard'] },
+          apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key', guards: ['ApiKeyGuard'] },
+        },
+      });
+
+      expect(spec.paths['orders/sync'].post?.security).toEqual([{ bearer: [] }, { bearer: [], apiKey: [] }]);
+    });
+
+    it('should use a single securityScheme for routes using authGuards', () => {
+      const spec = generator.generate(createGuardedControllers(), {
+        title: 'Test API',
+        version: '1.0',
+        securityScheme: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+      });
+
+      expect(spec.components?.securitySchemes).toEqual({
+        apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key' },
+      });
+      expect(spec.paths['orders'].get?.security).toEqual([{ apiKey: [] }]);
+      expect(spec.paths['session/open'].get?.security).toBeUndefined();
+      expect(spec.paths['orders/health'].get?.security).toBeUndefined();
+    });
+
+    it('should only secure routes using authGuards when no scheme lists guards', () => {
+      const controllers = createGuardedControllers();
+      controllers[0].guards = ['ThrottlerGuard'];
+
+      const spec = generator.generate(controllers, { title: 'Test API', version: '1.0' });
+
+      expect(spec.paths['orders'].get?.security).toBeUndefined();
+      expect(spec.paths['orders'].get?.responses['401']).toBeUndefined();
+      expect(spec.paths['session/current'].get?.security).toBeUndefined();
+
+      const custom = generator.generate(controllers, { title: 'Test API', version: '1.0', authGuards: ['SessionGuard'] });
+
+      expect(custom.paths['session/current'].get?.security).toEqual([{ bearerAuth: [] }]);
+      expect(custom.paths['orders/sync'].post?.security).toBeUndefined();
+    });
+
+    it('should apply global guards to every route', () => {
+      const spec = generator.generate(createGuardedControllers(), {
+        title: 'Test API',
+        version: '1.0',
+        globalGuards: ['JwtAuthGuard'],
+        securitySchemes,
+      });
+
+      expect(spec.paths['session/open'].get?.security).toEqual([{ bearer: [] }]);
+      expect(spec.paths['session/current'].get?.security).toEqual([{ bearer: [], session: [] }]);
+      expect(spec.paths['orders/health'].get?.security).toBeUndefined();
+    });
+
+    it('should treat every route of a public controller as public', () => {
+      const controllers = createGuardedControllers();
+      controllers[0].isPublic = true;
+
+      const spec = generator.generate(controllers, { title: 'Test API', version: '1.0', globalGuards: ['JwtAuthGuard'] });
+
+      expect(spec.paths['orders'].get?.security).toBeUndefined();
+      expect(spec.paths['orders/sync'].post?.security).toBeUndefined();
+      expect(spec.paths['session/open'].get?.security).toEqual([{ bearerAuth: [] }]);
+    });
+  });
+
+  describe('generate - roles and scopes', () => {
+    const controllers: ControllerMetadata[] = [
+      {
+        name: 'UsersController',
+        path: 'users',
+        filePath: 'src/users/users.controller.ts',
+        category: 'Users',
+        guards: ['OAuthGuard'],
+        routes: [
+          {
+            name: 'create',
+            httpMethod: 'POST',
+            path: '',
+            fullPath: '/users',
+            description: 'Create a user',
+            isPublic: false,
+            roles: ['admin', 'editor'],
+            scopes: ['users:write'],
+          } as RouteMetadata,
+          { name: 'findAll', httpMethod: 'GET', path: '', fullPath: '/users', isPublic: false } as RouteMetadata,
+        ],
+      },
+    ];
+
+    const options: AutoDocsOptions = {
+      title: 'Test API',
+      version: '1.0',
+      securitySchemes: {
+        oauth: {
+          type: 'oauth2',
+          flows: { clientCredentials: { tokenUrl: '/oauth/token', scopes: { 'users:read': 'Read users' } } },
+          guards: ['OAuthGuard'],
+        },
+        apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key', guards: ['OAuthGuard'] },
+      },
+    };
+
+    it('should put route scopes in OAuth2 security requirements only', () => {
+      const spec = generator.generate(controllers, options);
+
+      expect(spec.paths['users'].post?.security).toEqual([{ oauth: ['users:write'] }, { apiKey: [] }]);
+      expect(spec.paths['users'].get?.security).toEqual([{ oauth: [] }, { apiKey: [] }]);
+    });
+
+    it('should declare route scopes in OAuth2 flows', () => {
+      const spec = generator.generate(controllers, options);
+
+      expect(spec.components?.securitySchemes?.oauth.flows?.clientCredentials?.scopes).toEqual({
+        'users:write': '',
+        'users:read': 'Read users',
+      });
+    });
+
+    it('should document required roles as extension and in the description', () => {
+      const spec = generator.generate(controllers, options);
+      const operation = spec.paths['users'].post!;
+
+      expect(operation['x-required-roles']).toEqual(['admin', 'editor']);
+      expect(operation.description).toBe('Create a user\n\n**Required roles:** admin, editor');
+      expect(spec.paths['users'].get?.['x-required-roles']).toBeUndefined();
+    });
+  });
+
+  describe('generate - error responses', () => {
+    const createControllers = (route: Partial<RouteMetadata>, guards?: string[]): ControllerMetadata[] => [
+      {
+        name: 'UsersController',
+        path: 'users',
+        filePath: 'src/users/users.controller.ts',
+        category: 'Users',
+        guards,
+        routes: [
+          { name: 'handler', httpMethod: 'GET', path: ':id', fullPath: '/users/:id', isPublic: false, ...route } as RouteMetadata,
+        ],
+      },
+    ];
+
+    it('should only document the success response for unguarded routes without exceptions', () => {
+      const spec = generator.generate(createControllers({}), { title: 'Test API', version: '1.0' });
+
+      expect(Object.keys(spec.paths['users/{id}'].get!.responses)).toEqual(['200']);
+    });
+
+    it('should add 401 only for secured routes', () => {
+      const spec = generator.generate(createControllers({}, ['JwtAuthGuard']), { title: 'Test API', version: '1.0' });
+
+      expect(spec.paths['users/{id}'].get?.responses['401']).toEqual({ description: 'Unauthorized' });
+    });
+
+    it('should add 400 for parameters checked by parse pipes or query DTO validators', () => {
+      const type = { type: 'integer', isPrimitive: true, isArray: false, isEnum: false, isOptional: false };
+      const generate = (params: RouteMetadata['params']) =>
+        generator.generate(createControllers({ params }), { title: 'Test API', version: '1.0' }).paths['users/{id}'].get!.responses;
+
+      expect(generate([{ name: 'id', in: 'path', type, required: true, validated: true }])['400']).toEqual({ description: 'Bad request' });
+      expect(generate([{ name: 'page', in: 'query', type, required: false, validators: [{ name: 'Min', args: [1] }] }])['400']).toBeDefined();
+      expect(generate([{ name: 'id', in: 'path', type, required: true }])['400']).toBeUndefined();
+    });
+
+    it('should document thrown exceptions with their messages', () => {
+      const controllers = createControllers({
+        httpMethod: 'POST',
+        requestBody: { name: 'CreateUserDto', properties: [] },
+        exceptions: [
+          { statusCode: 400, description: 'Invalid email payload' },
+          { statusCode: 404, description: 'User not found' },
+        ],
+      });
+
+      const spec = generator.generate(controllers, { title: 'Test API', version: '1.0' });
+      const responses = spec.paths['users/{id}'].post!.responses;
+
+      expect(Object.keys(responses)).toEqual(['201', '400', '404']);
+      expect(responses['400'].description).toBe('Bad request or Invalid email payload');
+      expect(responses['404'].description).toBe('User not found');
+    });
+  });
+
+  describe('generate - success responses', () => {
+    const responseType = { name: 'UserDto', properties: [] };
+
+    const generateResponses = (route: Partial<RouteMetadata>) => {
+      const controllers: ControllerMetadata[] = [
+        {
+          name: 'UsersController',
+          path: 'users',
+          filePath: 'src/users/users.controller.ts',
+          category: 'Users',
+          routes: [
+            { name: 'handler', httpMethod: 'GET', path: '', fullPath: '/users', isPublic: false, ...route } as RouteMetadata,
+          ],
+        },
+      ];
+
+      const spec = generator.generate(controllers, { title: 'Test API', version: '1.0' });
+      const pathItem = spec.paths['users'];
+      return (pathItem.get || pathItem.post || pathItem.delete)!.responses;
+    };
+
+    it('should default POST to 201 and other methods to 200', () => {
+      expect(Object.keys(generateResponses({ httpMethod: 'POST', responseType }))).toEqual(['201']);
+      expect(Object.keys(generateResponses({ httpMethod: 'GET', responseType }))).toEqual(['200']);
+    });
+
+    it('should use @HttpCode status without content for 204', () => {
+      const responses = generateResponses({ httpMethod: 'DELETE', statusCode: 204, responseType });
+
+      expect(responses).toEqual({ '204': { description: 'No content' } });
+    });
+
+    it('should not document content for void handlers', () => {
+      const responses = generateResponses({ httpMethod: 'POST', returnsVoid: true });
+
+      expect(responses['201'].content).toBeUndefined();
+    });
+
+    it('should document response headers from @Header', () => {
+      const responses = generateResponses({ responseHeaders: { 'Cache-Control': 'no-store' }, responseType });
+
+      expect(responses['200'].headers).toEqual({
+        'Cache-Control': { schema: { type: 'string', example: 'no-store' } },
+      });
+    });
+
+    it('should document redirects with a Location header', () => {
+      const responses = generateResponses({ redirect: { url: 'https://docs.nestjs.com', statusCode: 301 } });
+
+      expect(responses).toEqual({
+        '301': {
+          description: 'Redirect',
+          headers: {
+            Location: { description: 'Redirect target', schema: { type: 'string', example: 'https://docs.nestjs.com' } },
+          },
+        },
+      });
+    });
+  });
+
+  describe('generate - query DTO parameters', () => {
+    it('should apply validator constraints and form/explode style for arrays', () => {
+      const controllers: ControllerMetadata[] = [
+        {
+          name: 'UsersController',
+          path: 'users',
+          filePath: 'src/users/users.controller.ts',
+          category: 'Users',
+          routes: [
+            {
+              name: 'findAll',
+              httpMethod: 'GET',
+              path: '',
+              fullPath: '/users',
+              isPublic: false,
+              params: [
+                {
+                  name: 'limit',
+                  in: 'query',
+                  type: { type: 'number', isPrimitive: true, isArray: false, isEnum: false, isOptional: false },
+                  required: false,
+                  description: 'Page size',
+                  validators: [{ name: 'Max', args: [100], constraints: { maximum: 100 } }],
+                },
+                {
+                  name: 'tags',
+                  in: 'query',
+                  type: {
+                    type: 'string[]',
+                    isPrimitive: true,
+                    isArray: true,
+                    isEnum: false,
+                    isOptional: false,
+                    elementType: { type: 'string', isPrimitive: true, isArray: false, isEnum: false, isOptional: false },
+                  },
+                  required: true,
+                },
+              ],
+            } as RouteMetadata,
+          ],
+        },
+      ];
+
+      const spec = generator.generate(controllers, { title: 'Test API', version: '1.0' });
+      const [limit, tags] = spec.paths['users'].get!.parameters!;
+
+      expect(limit).toEqual({
+        name: 'limit',
+        in: 'query',
+        required: false,
+        schema: { type: 'number', maximum: 100 },
+        description: 'Page size',
+      });
+      expect(tags).toMatchObject({
+        name: 'tags',
+        required: true,
+        style: 'form',
+        explode: true,
+        schema: { type: 'array', items: { type: 'string' } },
+      });
+    });
+  });
+
+  describe('generate - typed parameters', () => {
+    it('should document integer, default values and comma-separated arrays', () => {
+      const numberType = { type: 'number', isPrimitive: true, isArray: false, isEnum: false, isOptional: false };
+      const controllers: ControllerMetadata[] = [
+        {
+          name: 'OrdersController',
+          path: 'orders',
+          filePath: 'src/orders/orders.controller.ts',
+          category: 'Orders',
+          routes: [
+            {
+              name: 'findAll',
+              httpMethod: 'GET',
+              path: '',
+              fullPath: '/orders',
+              isPublic: false,
+              params: [
+                {
+                  name: 'page',
+                  in: 'query',
+                  type: { ...numberType, type: 'integer' },
+                  required: false,
+                  defaultValue: 1,
+                },
+                {
+                  name: 'ids',
+                  in: 'query',
+                  type: { ...numberType, type: 'number[]', isArray: true, elementType: numberType },
+                  required: true,
+                  arraySeparator: ',',
+                },
+              ],
+            } as RouteMetadata,
+          ],
+        },
+      ];
+
+      const spec = generator.generate(controllers, { title: 'Test API', version: '1.0' });
+      const [page, ids] = spec.paths['orders'].get!.parameters!;
+
+      expect(page.schema).toEqual({ type: 'integer', default: 1 });
+      expect(ids).toMatchObject({
+        style: 'form',
+        explode: false,
+        schema: { type: 'array', items: { type: 'number' } },
+      });
+    });
+  });
+
+  describe('generate - tag descriptions', () => {
+    it('should describe tags with module docs and external docs', () => {
+      const controllers: ControllerMetadata[] = [
+        {
+          name: 'InvoicesController',
+          path: 'invoices',
+          filePath: 'src/billing/invoices.controller.ts',
+          category: 'Billing',
+          description: 'Manage invoices',
+          routes: [],
+        },
+        {
+          name: 'PaymentsController',
+          path: 'payments',
+          filePath: 'src/billing/payments.controller.ts',
+          category: 'Billing',
+          moduleDocs: {
+            description: 'Invoices and **payments**.',
+            externalDocs: { url: 'https://docs.example.com/billing', description: 'Billing guide' },
+          },
+          routes: [],
+        },
+        {
+          name: 'UsersController',
+          path: 'users',
+          filePath: 'src/users/users.controller.ts',
+          category: 'Users',
+          routes: [],
+        },
+      ];
+
+      const spec = generator.generate(controllers, { title: 'Test API', version: '1.0' });
+
+      expect(spec.tags).toEqual([
+        {
+          name: 'Billing',
+          description: 'Invoices and **payments**.',
+          externalDocs: { url: 'https://docs.example.com/billing', description: 'Billing guide' },
+        },
+        { name: 'Users', description: 'Users related endpoints' },
+      ]);
+    });
+  });
+
+  describe('generate - tag groups', () => {
+    const createControllers = (): ControllerMetadata[] => [
+      ['InvoicesController', 'Invoices', 'Billing'],
+      ['BillingController', 'Billing', 'Billing'],
+      ['UsersController', 'Users', 'Identity'],
+      ['LegacyController', 'Legacy', undefined],
+    ].map(([name, category, group]) => ({
+      name: name!,
+      path: category!.toLowerCase(),
+      filePath: `src/${category!.toLowerCase()}/${category!.toLowerCase()}.controller.ts`,
+      category: category!,
+      group,
+      routes: [{ name: 'findAll', httpMethod: 'GET', path: '', fullPath: `/${category!.toLowerCase()}`, isPublic: true } as RouteMetadata],
+    }));
+
+    it('should group tags by feature module with ungrouped tags under Other', () => {
+      const spec = generator.generate(createControllers(), { title: 'Test API', version: '1.0', tagGroups: {} });
+
+      expect(spec['x-tagGroups']).toEqual([
+        { name: 'Billing', tags: ['Billing', 'Invoices'] },
+        { name: 'Identity', tags: ['Users'] },
+        { name: 'Other', tags: ['Legacy'] },
+      ]);
+    });
+
+    it('should order tags within groups by tagOrder', () => {
+      const spec = generator.generate(createControllers(), {
+        title: 'Test API',
+        version: '1.0',
+        tagGroups: {},
+        tagOrder: ['Invoices'],
+      });
+
+      expect(spec['x-tagGroups']?.[0]).toEqual({ name: 'Billing', tags: ['Invoices', 'Billing'] });
+    });
+
+    it('should not add tag groups unless enabled', () => {
+      const spec = generator.generate(createControllers(), { title: 'Test API', version: '1.0' });
+
+      expect(spec['x-tagGroups']).toBeUndefined();
+    });
+  });
+
+  describe('generate - path aliases and hosts', () => {
+    it('should document every controller and route path alias with unique operationIds', () => {
+      const controllers: ControllerMetadata[] = [
+        {
+          name: 'UsersController',
+          path: 'users',
+          paths: ['users', 'members'],
+          filePath: 'src/users/users.controller.ts',
+          category: 'Users',
+          routes: [
+            { name: 'profile', httpMethod: 'GET', path: 'profile', paths: ['profile', 'me'], fullPath: '/users/profile', isPublic: true } as RouteMetadata,
+          ],
+        },
+      ];
+
+      const spec = generator.generate(controllers, { title: 'Test API', version: '1.0' });
+
+      expect(Object.keys(spec.paths)).toEqual(['users/profile', 'users/me', 'members/profile', 'members/me']);
+      expect(Object.values(spec.paths).map(pathItem => pathItem.get?.operationId)).toEqual([
+        'UsersController_profile',
+        'UsersController_profile_2',
+        'UsersController_profile_3',
+        'UsersController_profile_4',
+      ]);
+    });
+
+    it('should add per-host servers to operations of host-bound controllers', () => {
+      const controllers: ControllerMetadata[] = [
+        {
+          name: 'AdminController',
+          path: 'admin',
+          hosts: [':account.example.com', 'admin.example.com'],
+          filePath: 'src/admin/admin.controller.ts',
+          category: 'Admin',
+          routes: [{ name: 'dashboard', httpMethod: 'GET', path: '', fullPath: '/admin', isPublic: true } as RouteMetadata],
+        },
+      ];
+
+      const spec = generator.generate(controllers, { title: 'Test API', version: '1.0' });
+
+      expect(spec.paths['admin'].get?.servers).toEqual([
+        {
+          url: 'https://{account}.example.com',
+          description: 'Host :account.example.com',
+          variables: { account: { default: 'account', description: 'Value of the :account host parameter' } },
+        },
+        { url: 'https://admin.example.com', description: 'Host admin.example.com' },
+      ]);
+    });
+
+    it('should use the scheme of the configured servers for host servers', () => {
+      const controllers: ControllerMetadata[] = [
+        {
+          name: 'AdminController',
+          path: 'admin',
+          hosts: ['admin.localhost'],
+          filePath: 'src/admin/admin.controller.ts',
+          category: 'Admin',
+          routes: [{ name: 'dashboard', httpMethod: 'GET', path: '', fullPath: '/admin', isPublic: true } as RouteMetadata],
+        },
+      ];
+
+      const fromServers = generator.generate(controllers, {
+        title: 'Test API',
+        version: '1.0',
+        servers: [{ url: '/api', description: 'Relative' }, { url: 'http://localhost:3000', description: 'Local' }],
+      });
+      const fromBaseUrl = generator.generate(controllers, { title: 'Test API', version: '1.0', baseServerURL: 'HTTP://localhost:3000' });
+
+      expect(fromServers.paths['admin'].get?.servers?.[0].url).toBe('http://admin.localhost');
+      expect(fromBaseUrl.paths['admin'].get?.servers?.[0].url).toBe('http://admin.localhost');
+    });
+  });
+
+  describe('generate - file uploads', () => {
+    const createController = (route: Partial<RouteMetadata>): ControllerMetadata[] => [
+      {
+        name: 'UploadController',
+        path: 'uploads',
+        filePath: 'src/uploads/upload.controller.ts',
+        category: 'Uploads',
+        routes: [
+          { name: 'upload', httpMethod: 'POST', path: '', fullPath: '/uploads', isPublic: true, ...route } as RouteMetadata,
+        ],
+      },
+    ];
+
+    it('should document uploads as multipart/form-data merged with @Body() fields', () => {
+      const spec = generator.generate(
+        createController({
+          fileUploads: [
+            { fieldName: 'avatar', isArray: false, required: true, constraints: ['Max size: 2 MB', 'Allowed types: image/jpeg'] },
+            { fieldName: 'photos', isArray: true, maxCount: 5, required: false },
+          ],
+          requestBody: {
+            name: 'ProfileDto',
+            filePath: 'src/uploads/profile.dto.ts',
+            properties: [
+              { name: 'bio', type: { type: 'string', isPrimitive: true, isArray: false, isEnum: false, isOptional: false }, required: true },
+            ],
+          },
+        }),
+        { title: 'Test API', version: '1.0' },
+      );
+
+      const requestBody = spec.paths['uploads'].post?.requestBody;
+      expect(Object.keys(requestBody!.content)).toEqual(['multipart/form-data']);
+      expect(requestBody!.content['multipart/form-data'].schema).toEqual({
+        type: 'object',
+        properties: {
+          bio: { type: 'string' },
+          avatar: { type: 'string', format: 'binary', description: 'Max size: 2 MB. Allowed types: image/jpeg' },
+          photos: { type: 'array', items: { type: 'string', format: 'binary' }, maxItems: 5 },
+        },
+        required: ['bio', 'avatar'],
+      });
+      expect(spec.paths['uploads'].post?.responses['400']).toBeDefined();
+    });
+
+    it('should accept files in any field for AnyFilesInterceptor', () => {
+      const spec = generator.generate(
+        createController({ fileUploads: [{ isArray: true, required: false }] }),
+        { title: 'Test API', version: '1.0' },
+      );
+
+      expect(spec.paths['uploads'].post?.requestBody?.content['multipart/form-data'].schema).toEqual({
+        type: 'object',
+        properties: {},
+        additionalProperties: { type: 'string', format: 'binary' },
+      });
+      expect(spec.paths['uploads'].post?.responses['400']).toBeUndefined();
+    });
+  });
+
+  describe('generate - header parameters', () => {
+    const stringType = { type: 'string', isPrimitive: true, isArray: false, isEnum: false, isOptional: false };
+
+    const createControllers = (): ControllerMetadata[] => [
+      {
+        name: 'OrdersController',
+        path: 'orders',
+        filePath: 'src/orders/orders.controller.ts',
+        category: 'Orders',
+        routes: [
+          {
+            name: 'findAll',
+            httpMethod: 'GET',
+            path: '',
+            fullPath: '/orders',
+            isPublic: false,
+            params: [
+              { name: 'x-tenant-id', in: 'header', type: stringType, required: true },
+              { name: 'Authorization', in: 'header', type: stringType, required: true },
+            ],
+          } as RouteMetadata,
+          { name: 'findOne', httpMethod: 'GET', path: ':id', fullPath: '/orders/:id', isPublic: false } as RouteMetadata,
+        ],
+      },
+      {
+        name: 'HealthController',
+        path: 'health',
+        filePath: 'src/health/health.controller.ts',
+        category: 'Health',
+        routes: [{ name: 'check', httpMethod: 'GET', path: '', fullPath: '/health', isPublic: true } as RouteMetadata],
+      },
+    ];
+
+    it('should emit @Headers() parameters except ones OpenAPI ignores', () => {
+      const spec = generator.generate(createControllers(), { title: 'Test API', version: '1.0' });
+
+      expect(spec.paths['orders'].get?.parameters).toEqual([
+        { name: 'x-tenant-id', in: 'header', required: true, schema: { type: 'string' }, description: undefined },
+      ]);
+    });
+
+    it('should add global headers to matching operations', () => {
+      const spec = generator.generate(createControllers(), {
+        title: 'Test API',
+        version: '1.0',
+        globalHeaders: [
+          { name: 'X-Tenant-Id', description: 'Tenant identifier', exclude: ['health'] },
+          { name: 'x-request-id', required: false, include: ['orders/*'] },
+          { name: 'x-health-token', include: ['HealthController'] },
+        ],
+      });
+
+      const headerNames = (path: string) =>
+        spec.paths[path].get?.parameters?.filter(param => param.in === 'header').map(param => param.name);
+
+      expect(headerNames('orders')).toEqual(['x-tenant-id']);
+      expect(headerNames('orders/{id}')).toEqual(['X-Tenant-Id', 'x-request-id']);
+      expect(headerNames('health')).toEqual(['x-health-token']);
+      expect(spec.paths['orders/{id}'].get?.parameters?.[1]).toEqual({
+        name: 'x-request-id',
+        in: 'header',
+        required: false,
+        schema: { type: 'string' },
+        description: undefined,
+      });
+    });
   });
 
   describe('generate - route parameters', () => {
@@ -415,6 +1177,292 @@ describe('OpenApiGenerator', () => {
     });
   });
 
+  describe('generate - component schemas', () => {
+    const stringType: TypeMetadata = {
+      type: 'string',
+      isPrimitive: true,
+      isArray: false,
+      isEnum: false,
+      isOptional: false,
+    };
+
+    const userDto = (filePath: string): DtoMetadata => ({
+      name: 'UserDto',
+      filePath,
+      properties: [{ name: 'name', type: stringType, required: true }],
+    });
+
+    const buildController = (routes: Partial<RouteMetadata>[]): ControllerMetadata => ({
+      name: 'UserController',
+      path: 'users',
+      filePath: 'src/users/users.controller.ts',
+      category: 'Users',
+      routes: routes.map((route, index) => ({
+        name: `route${index}`,
+        httpMethod: 'POST',
+        path: `r${index}`,
+        fullPath: `/users/r${index}`,
+        ...route,
+      }) as RouteMetadata),
+    });
+
+    const options: AutoDocsOptions = {
+      title: 'Test API',
+      version: '1.0',
+    };
+
+    it('should register class DTOs once and reference them with $ref', () => {
+      const dto = userDto('src/users/dto/user.dto.ts');
+      const spec = generator.generate(
+        [buildController([{ requestBody: dto, responseType: dto }, { responseType: dto }])],
+        options,
+      );
+
+      expect(Object.keys(spec.components?.schemas || {})).toEqual(['UserDto']);
+      expect(spec.components?.schemas?.UserDto).toEqual({
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        required: ['name'],
+      });
+      expect(spec.paths['users/r0'].post?.requestBody?.content['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/UserDto',
+      });
+      expect(spec.paths['users/r1'].post?.responses['201'].content?.['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/UserDto',
+      });
+    });
+
+    it('should reference nested classes and array items', () => {
+      const addressType: TypeMetadata = {
+        type: 'AddressDto',
+        isPrimitive: false,
+        isArray: false,
+        isEnum: false,
+        isOptional: false,
+        className: 'AddressDto',
+        filePath: 'src/users/dto/address.dto.ts',
+        properties: [{ name: 'city', type: stringType, required: true }],
+      };
+      const dto: DtoMetadata = {
+        name: 'ProfileDto',
+        filePath: 'src/users/dto/profile.dto.ts',
+        properties: [
+          { name: 'address', type: addressType, required: true, description: 'Home address' },
+          {
+            name: 'previous',
+            type: { ...addressType, type: 'AddressDto[]', isArray: true, properties: undefined, elementType: addressType },
+            required: false,
+          },
+        ],
+      };
+
+      const spec = generator.generate([buildController([{ responseType: dto }])], options);
+      const profile = spec.components?.schemas?.ProfileDto;
+
+      expect(profile?.properties?.address).toEqual({
+        allOf: [{ $ref: '#/components/schemas/AddressDto' }],
+        description: 'Home address',
+      });
+      expect(profile?.properties?.previous).toEqual({
+        type: 'array',
+        items: { $ref: '#/components/schemas/AddressDto' },
+      });
+      expect(profile?.required).toEqual(['address']);
+      expect(spec.components?.schemas?.AddressDto?.properties?.city).toEqual({ type: 'string' });
+    });
+
+    it('should keep inline DTOs inline', () => {
+      const dto: DtoMetadata = {
+        name: 'InlineType',
+        properties: [{ name: 'message', type: stringType, required: true }],
+      };
+
+      const spec = generator.generate([buildController([{ responseType: dto }])], options);
+
+      expect(spec.components?.schemas).toEqual({});
+      expect(spec.paths['users/r0'].post?.responses['201'].content?.['application/json'].schema?.type).toBe('object');
+    });
+
+    it('should resolve name collisions deterministically by directory', () => {
+      const v1 = userDto('src/api/v1/users/dto/user.dto.ts');
+      const v2 = userDto('src/api/v2/users/dto/user.dto.ts');
+
+      const forward = generator.generate([buildController([{ responseType: v1 }, { responseType: v2 }])], options);
+      const reversed = generator.generate([buildController([{ responseType: v2 }, { responseType: v1 }])], options);
+
+      expect(Object.keys(forward.components?.schemas || {})).toEqual(['V1UsersUserDto', 'V2UsersUserDto']);
+      expect(forward.paths['users/r0'].post?.responses['201'].content?.['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/V1UsersUserDto',
+      });
+      expect(reversed.paths['users/r0'].post?.responses['201'].content?.['application/json'].schema).toEqual({
+        $ref: '#/components/schemas/V2UsersUserDto',
+      });
+    });
+  });
+
+  describe('generate - decorator versioning', () => {
+    const options: AutoDocsOptions = {
+      title: 'Test API',
+      version: '1.0',
+      globalPrefix: 'api',
+      versioning: {
+        enabled: true,
+        strategy: 'decorator',
+      },
+    };
+
+    const controller = (overrides: Partial<ControllerMetadata>, routes: Partial<RouteMetadata>[]): ControllerMetadata => ({
+      name: 'UsersController',
+      path: 'users',
+      filePath: 'src/users/users.controller.ts',
+      category: 'Users',
+      routes: routes.map(route => ({
+        name: 'findAll',
+        httpMethod: 'GET',
+        path: '',
+        fullPath: '/users',
+        ...route,
+      }) as RouteMetadata),
+      ...overrides,
+    });
+
+    const dto = (name: string): DtoMetadata => ({
+      name,
+      filePath: `src/users/dto/${name}.ts`,
+      properties: [],
+    });
+
+    it('should use the controller version as URI prefix', () => {
+      const spec = generator.generate([controller({ versions: ['2'] }, [{}])], options);
+
+      expect(Object.keys(spec.paths)).toEqual(['api/v2/users']);
+      expect(spec.paths['api/v2/users'].get?.operationId).toBe('UsersController_findAll');
+      expect(spec.servers).toEqual([{ url: 'api', description: 'API Server' }]);
+    });
+
+    it('should emit one operation per version served by @Version', () => {
+      const spec = generator.generate(
+        [controller({ versions: ['2'] }, [{ versions: ['1', '2'] }, { name: 'findOne', path: ':id' }])],
+        options,
+      );
+
+      expect(Object.keys(spec.paths).sort()).toEqual(['api/v1/users', 'api/v2/users', 'api/v2/users/{id}']);
+      expect(spec.paths['api/v1/users'].get?.operationId).toBe('UsersController_findAll_v1');
+      expect(spec.paths['api/v2/users'].get?.operationId).toBe('UsersController_findAll_v2');
+    });
+
+    it('should document VERSION_NEUTRAL routes without a version prefix', () => {
+      const spec = generator.generate(
+        [controller({ versions: ['VERSION_NEUTRAL'] }, [{}]), controller({ name: 'OtherController', path: 'other' }, [{}])],
+        { ...options, versioning: { ...options.versioning, defaultVersion: '1' } },
+      );
+
+      expect(spec.paths).toHaveProperty('api/users');
+      expect(spec.paths).toHaveProperty('api/v1/other');
+    });
+
+    it('should honour a custom URI prefix', () => {
+      const spec = generator.generate(
+        [controller({ versions: ['2'] }, [{}])],
+        { ...options, versioning: { ...options.versioning, uriPrefix: 'version-' } },
+      );
+
+      expect(spec.paths).toHaveProperty('api/version-2/users');
+    });
+
+    it('should document header versions as a required header enum on a shared path', () => {
+      const spec = generator.generate(
+        [controller({}, [{ versions: ['1'] }, { name: 'findAllV2', versions: ['2'] }])],
+        { ...options, versioning: { ...options.versioning, type: 'header', header: 'X-Version' } },
+      );
+
+      expect(Object.keys(spec.paths)).toEqual(['api/users']);
+
+      const operation = spec.paths['api/users'].get;
+      expect(operation?.operationId).toBe('UsersController_findAll');
+      expect(operation?.parameters).toEqual([
+        {
+          name: 'X-Version',
+          in: 'header',
+          required: true,
+          description: 'API version',
+          schema: { type: 'string', enum: ['1', '2'] },
+        },
+      ]);
+    });
+
+    it('should document media-type versions as distinct content types', () => {
+      const spec = generator.generate(
+        [controller({}, [
+          { versions: ['1'], responseType: dto('UserV1Dto') },
+          { name: 'findAllV2', versions: ['2'], responseType: dto('UserV2Dto') },
+        ])],
+        { ...options, versioning: { ...options.versioning, type: 'media-type' } },
+      );
+
+      expect(Object.keys(spec.paths)).toEqual(['api/users']);
+      expect(spec.paths['api/users'].get?.responses['200'].content).toEqual({
+        'application/json;v=1': { schema: { $ref: '#/components/schemas/UserV1Dto' } },
+        'application/json;v=2': { schema: { $ref: '#/components/schemas/UserV2Dto' } },
+      });
+    });
+
+    it('should keep the schema and operationId of every header version handler', () => {
+      const spec = generator.generate(
+        [controller({}, [
+          { versions: ['1'], description: 'List users', responseType: dto('UserV1Dto') },
+          { name: 'findAllV2', versions: ['2'], description: 'List users with profiles', responseType: dto('UserV2Dto') },
+        ])],
+        { ...options, versioning: { ...options.versioning, type: 'header' } },
+      );
+
+      const operation = spec.paths['api/users'].get;
+      expect(operation?.responses['200'].content).toEqual({
+        'application/json': {
+          schema: {
+            oneOf: [
+              { description: 'API version 1', allOf: [{ $ref: '#/components/schemas/UserV1Dto' }] },
+              { description: 'API version 2', allOf: [{ $ref: '#/components/schemas/UserV2Dto' }] },
+            ],
+          },
+        },
+      });
+      expect(operation?.['x-versions']).toEqual({
+        '1': { operationId: 'UsersController_findAll', description: 'List users' },
+        '2': { operationId: 'UsersController_findAllV2', description: 'List users with profiles' },
+      });
+      expect(operation?.description).toContain('**Version 2** (`UsersController_findAllV2`): List users with profiles');
+    });
+
+    it('should not add a oneOf when one handler serves several header versions', () => {
+      const spec = generator.generate(
+        [controller({}, [{ versions: ['1', '2'], responseType: dto('UserDto') }])],
+        { ...options, versioning: { ...options.versioning, type: 'header' } },
+      );
+
+      const operation = spec.paths['api/users'].get;
+      expect(operation?.responses['200'].content).toEqual({
+        'application/json': { schema: { $ref: '#/components/schemas/UserDto' } },
+      });
+      expect(operation?.['x-versions']).toBeUndefined();
+    });
+
+    it('should version media types of responses without content', () => {
+      const spec = generator.generate(
+        [controller({}, [
+          { name: 'remove', httpMethod: 'DELETE', statusCode: 204, versions: ['1'] },
+          { name: 'removeV2', httpMethod: 'DELETE', statusCode: 204, versions: ['2'] },
+        ])],
+        { ...options, versioning: { ...options.versioning, type: 'media-type' } },
+      );
+
+      expect(spec.paths['api/users'].delete?.responses['204'].content).toEqual({
+        'application/json;v=1': {},
+        'application/json;v=2': {},
+      });
+    });
+  });
+
   describe('baseServerURL configuration', () => {
     it('should use baseServerURL when no servers are generated', () => {
       const options: AutoDocsOptions = {
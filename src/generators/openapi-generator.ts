@@ -1,26 +1,53 @@
 import { Injectable } from '@nestjs/common';
-import { ControllerMetadata, DtoMetadata, PropertyMetadata, TypeMetadata, ValidatorMetadata, RouteMetadata, ParamMetadata } from '../interfaces';
-import { OpenApiSpec, PathItemObject, OperationObject, ParameterObject, RequestBodyObject, ResponseObject, SchemaObject, TagObject } from '../interfaces/openapi.interface';
-import { AutoDocsOptions } from '../interfaces/options.interface';
+import { ControllerMetadata, DtoMetadata, FileUploadMetadata, PropertyMetadata, TypeMetadata, ValidatorMetadata, RouteMetadata } from '../interfaces';
+import { OpenApiSpec, PathItemObject, OperationObject, ParameterObject, RequestBodyObject, ResponseObject, ResponsesObject, ContentObject, SchemaObject, TagObject, TagGroupObject, HeaderObject, ServerObject } from '../interfaces/openapi.interface';
+import { AutoDocsOptions, GlobalHeaderConfig } from '../interfaces/options.interface';
+import { SecurityGenerator } from './security-generator';
+
+/**
+ * Header parameters that OpenAPI ignores (described by content types and security schemes)
+ */
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
 
 @Injectable()
 export class OpenApiGenerator {
   private schemas: Map<string, SchemaObject> = new Map();
+  private schemaSources: Map<string, SchemaSource> = new Map();
+  private schemaNames: Map<string, string> = new Map();
   private tags: Map<string, TagObject> = new Map();
+  private versionAlternatives: WeakMap<SchemaObject, string[]> = new WeakMap();
+  private securityGenerator: SecurityGenerator;
+
+  constructor() {
+    this.securityGenerator = new SecurityGenerator();
+  }
 
   /**
    * Generate complete OpenAPI 3.0 specification from controller metadata
+   * When a version is given, only routes serving that version (and unversioned
+   * routes) are included
    */
-  generate(controllers: ControllerMetadata[], options: AutoDocsOptions): OpenApiSpec {
+  generate(controllers: ControllerMetadata[], options: AutoDocsOptions, version?: string): OpenApiSpec {
     // Reset state
     this.schemas.clear();
+    this.schemaSources.clear();
+    this.schemaNames.clear();
     this.tags.clear();
 
+    // Collect class-backed schemas and assign unique component names
+    this.collectSchemaSources(controllers);
+    this.assignSchemaNames();
+
     // Generate tags from categories
     this.generateTags(controllers);
 
     // Generate paths from controllers
-    const paths = this.generatePaths(controllers, options);
+    const paths = this.generatePaths(controllers, options, version);
+
+    // Per-version documents only list the tags their operations use
+    if (version) {
+      this.removeUnusedTags(paths);
+    }
 
     // Build OpenAPI spec
     const spec: OpenApiSpec = {
@@ -31,45 +58,146 @@ export class OpenApiGenerator {
         description: options.description || 'Auto-generated API documentation',
         ...(options.contact && { contact: options.contact }),
       },
-      servers: options.servers || this.generateDefaultServers(options, controllers),
-      tags: Array.from(this.tags.values()).sort((a, b) => a.name.localeCompare(b.name)),
+      servers: options.servers || this.generateDefaultServers(options, controllers, version),
+      tags: Array.from(this.tags.values()).sort((a, b) => this.compareTags(a.name, b.name, options)),
+      'x-tagGroups': options.tagGroups ? this.generateTagGroups(controllers, options) : undefined,
       paths,
       components: {
-        schemas: Object.fromEntries(this.schemas),
-        securitySchemes: options.includeSecurity !== false
-          ? {
-              bearerAuth: {
-                type: 'http',
-                scheme: 'bearer',
-                bearerFormat: 'JWT',
-                description: 'Enter your JWT token in the format: Bearer {token}',
-              },
-            }
-          : undefined,
+        schemas: Object.fromEntries(
+          Array.from(this.schemas.entries()).sort(([a], [b]) => a.localeCompare(b)),
+        ),
+        securitySchemes: this.securityGenerator.generateSecuritySchemes(options, controllers),
       },
     };
 
     return spec;
   }
 
+  /**
+   * Get every API version served by the controllers, sorted naturally (v2 before v10)
+   */
+  getVersions(controllers: ControllerMetadata[], options: AutoDocsOptions): string[] {
+    const versions = new Set<string>();
+
+    for (const controller of controllers) {
+      for (const route of controller.routes) {
+        for (const routePath of this.buildRoutePaths(route, controller, options)) {
+          if (routePath.version) {
+            versions.add(routePath.version);
+          }
+        }
+      }
+    }
+
+    return Array.from(versions).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  }
+
+  /**
+   * Format a version for URLs and labels (e.g. '2' -> 'v2', 'v1' -> 'v1')
+   */
+  formatVersionLabel(version: string): string {
+    return version.startsWith('v') ? version : `v${version}`;
+  }
+
   /**
    * Generate tags from controller categories
+   * Descriptions come from the module docs of any controller in the category,
+   * then from the first controller's JSDoc
    */
   private generateTags(controllers: ControllerMetadata[]): void {
-    const categorySet = new Set<string>();
+    const documented = new Set<string>();
 
     for (const controller of controllers) {
-      if (controller.category && !categorySet.has(controller.category)) {
-        categorySet.add(controller.category);
+      for (const category of this.getControllerTags(controller)) {
+        if (documented.has(category)) continue;
 
-        // Use controller description or generate from category name
-        const description = controller.description ||
-                          `${controller.category} related endpoints`;
+        const moduleDocs = controller.moduleDocs;
+        if (this.tags.has(category) && !moduleDocs) continue;
 
-        this.tags.set(controller.category, {
-          name: controller.category,
+        // Use module docs, controller description or generate from category name
+        const description = moduleDocs?.description ||
+                          this.tags.get(category)?.description ||
+                          controller.description ||
+                          `${category} related endpoints`;
+
+        this.tags.set(category, {
+          name: category,
           description,
+          ...(moduleDocs?.externalDocs && { externalDocs: moduleDocs.externalDocs }),
         });
+
+        if (moduleDocs) {
+          documented.add(category);
+        }
+      }
+    }
+  }
+
+  /**
+   * Get the tags of a controller's operations (every mapped category, or the detected one)
+   */
+  private getControllerTags(controller: ControllerMetadata): string[] {
+    if (controller.categories && controller.categories.length > 0) {
+      return controller.categories;
+    }
+
+    return controller.category ? [controller.category] : [];
+  }
+
+  /**
+   * Compare tag names: tags listed in tagOrder come first in that order, the rest alphabetically
+   */
+  private compareTags(a: string, b: string, options: AutoDocsOptions): number {
+    const order = options.tagOrder || [];
+    const rankA = order.includes(a) ? order.indexOf(a) : order.length;
+    const rankB = order.includes(b) ? order.indexOf(b) : order.length;
+
+    return rankA - rankB || a.localeCompare(b);
+  }
+
+  /**
+   * Group tags by the feature module of their controllers (x-tagGroups)
+   * Tags without a group are listed under 'Other' so that no tag is hidden
+   */
+  private generateTagGroups(controllers: ControllerMetadata[], options: AutoDocsOptions): TagGroupObject[] | undefined {
+    const groups = new Map<string, Set<string>>();
+
+    for (const controller of controllers) {
+      for (const category of this.getControllerTags(controller)) {
+        if (!this.tags.has(category)) continue;
+
+        const group = controller.group || 'Other';
+        if (!groups.has(group)) {
+          groups.set(group, new Set());
+        }
+        groups.get(group)!.add(category);
+      }
+    }
+
+    if (groups.size === 0 || (groups.size === 1 && groups.has('Other'))) {
+      return undefined;
+    }
+
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => (a === 'Other' ? 1 : b === 'Other' ? -1 : a.localeCompare(b)))
+      .map(([name, tags]) => ({ name, tags: Array.from(tags).sort((a, b) => this.compareTags(a, b, options)) }));
+  }
+
+  /**
+   * Remove tags that no operation references
+   */
+  private removeUnusedTags(paths: Record<string, PathItemObject>): void {
+    const usedTags = new Set<string>();
+
+    for (const pathItem of Object.values(paths)) {
+      for (const operation of Object.values(pathItem) as OperationObject[]) {
+        operation.tags?.forEach(tag => usedTags.add(tag));
+      }
+    }
+
+    for (const tagName of Array.from(this.tags.keys())) {
+      if (!usedTags.has(tagName)) {
+        this.tags.delete(tagName);
       }
     }
   }
@@ -77,61 +205,85 @@ export class OpenApiGenerator {
   /**
    * Generate paths object from controllers
    */
-  private generatePaths(controllers: ControllerMetadata[], options: AutoDocsOptions): Record<string, PathItemObject> {
+  private generatePaths(
+    controllers: ControllerMetadata[],
+    options: AutoDocsOptions,
+    version?: string,
+  ): Record<string, PathItemObject> {
     const paths: Record<string, PathItemObject> = {};
+    const operationVersions = new Map<OperationObject, string[]>();
 
     for (const controller of controllers) {
       for (const route of controller.routes) {
-        // Build path based on versioning configuration
-        let fullPath: string;
-
-        if (options.versioning?.enabled && controller.version) {
-          // Use detected version from file path
-          const versionPrefix = options.versioning.prefix || '/api';
-          fullPath = this.combinePaths(versionPrefix, controller.version, controller.path, route.path);
-        } else if (options.versioning?.enabled && options.versioning.fallback) {
-          // Use fallback prefix when version not detected
-          fullPath = this.combinePaths(options.versioning.fallback, controller.path, route.path);
-        } else {
-          // Use globalPrefix (backwards compatible)
-          fullPath = this.combinePaths(options.globalPrefix || '', controller.path, route.path);
-        }
+        const routePaths = this.buildRoutePaths(route, controller, options);
 
-        // Convert :param to {param} for OpenAPI
-        fullPath = fullPath.replace(/:(\w+)/g, '{$1}');
+        // Header and media-type versions share one path, so their operations are merged
+        const versionType = this.getVersionNegotiationType(options);
+        const hasDistinctPaths = new Set(
+          routePaths.filter(routePath => !routePath.alias).map(routePath => routePath.path),
+        ).size > 1;
 
-        // Initialize path item if not exists
-        if (!paths[fullPath]) {
-          paths[fullPath] = {};
-        }
+        for (const routePath of routePaths) {
+          // Skip paths of other versions when generating a per-version document
+          if (version && routePath.version && routePath.version !== version) {
+            continue;
+          }
+
+          // Convert :param to {param} for OpenAPI
+          const fullPath = routePath.path.replace(/:(\w+)/g, '{$1}');
+
+          // Initialize path item if not exists
+          if (!paths[fullPath]) {
+            paths[fullPath] = {};
+          }
+
+          // Create operation object (operationId is suffixed when versions get their own paths)
+          let operation = this.createOperation(
+            route,
+            controller,
+            options,
+            hasDistinctPaths ? routePath.version : undefined,
+            routePath.alias,
+          );
+
+          if (versionType && routePath.version) {
+            this.applyVersionNegotiation(operation, routePath.version, versionType, options);
+          }
+
+          // Add operation to path item
+          const method = route.httpMethod.toLowerCase();
+          const existing = paths[fullPath][method] as OperationObject | undefined;
+          if (versionType && existing && routePath.version) {
+            const versions = operationVersions.get(existing) || [];
+            operation = this.mergeVersionedOperations(existing, versions, operation, routePath.version);
+            operationVersions.set(operation, [...versions, routePath.version]);
+          } else if (routePath.version) {
+            operationVersions.set(operation, [routePath.version]);
+          }
 
-        // Create operation object
-        const operation = this.createOperation(route, controller);
-
-        // Add operation to path item
-        const method = route.httpMethod.toLowerCase();
-        switch (method) {
-          case 'get':
-            paths[fullPath].get = operation;
-            break;
-          case 'post':
-            paths[fullPath].post = operation;
-            break;
-          case 'put':
-            paths[fullPath].put = operation;
-            break;
-          case 'patch':
-            paths[fullPath].patch = operation;
-            break;
-          case 'delete':
-            paths[fullPath].delete = operation;
-            break;
-          case 'options':
-            paths[fullPath].options = operation;
-            break;
-          case 'head':
-            paths[fullPath].head = operation;
-            break;
+          switch (method) {
+            case 'get':
+              paths[fullPath].get = operation;
+              break;
+            case 'post':
+              paths[fullPath].post = operation;
+              break;
+            case 'put':
+              paths[fullPath].put = operation;
+              break;
+            case 'patch':
+              paths[fullPath].patch = operation;
+              break;
+            case 'delete':
+              paths[fullPath].delete = operation;
+              break;
+            case 'options':
+              paths[fullPath].options = operation;
+              break;
+            case 'head':
+              paths[fullPath].head = operation;
+              break;
+          }
         }
       }
     }
@@ -139,43 +291,351 @@ export class OpenApiGenerator {
     return paths;
   }
 
+  /**
+   * Build the documented path(s) of a route
+   * Every combination of controller and route path aliases is documented, e.g.
+   * @Controller(['users', 'members']) + @Get(['me', 'profile']) -> 4 paths
+   * Aliases after the first are numbered to keep operationIds unique
+   */
+  private buildRoutePaths(
+    route: RouteMetadata,
+    controller: ControllerMetadata,
+    options: AutoDocsOptions,
+  ): Array<{ path: string; version?: string; alias?: number }> {
+    const controllerPaths = controller.paths || [controller.path];
+    const routePaths = route.paths || [route.path];
+
+    return controllerPaths
+      .flatMap(controllerPath => routePaths.map(routePath => ({ controllerPath, routePath })))
+      .flatMap(({ controllerPath, routePath }, alias) =>
+        this.buildVersionedPaths(controllerPath, routePath, route, controller, options)
+          .map(versionedPath => (alias > 0 ? { ...versionedPath, alias } : versionedPath)),
+      );
+  }
+
+  /**
+   * Build the documented path(s) of a controller and route path based on versioning configuration
+   * Decorator versioning produces one path per version the route serves
+   */
+  private buildVersionedPaths(
+    controllerPath: string,
+    routePath: string,
+    route: RouteMetadata,
+    controller: ControllerMetadata,
+    options: AutoDocsOptions,
+  ): Array<{ path: string; version?: string }> {
+    if (options.versioning?.enabled && options.versioning.strategy === 'decorator') {
+      // Versions come after the global prefix: /api/v2/users
+      const prefix = options.versioning.prefix ?? options.globalPrefix ?? '';
+      const uriPrefix = options.versioning.uriPrefix ?? 'v';
+      const inPath = !this.getVersionNegotiationType(options);
+
+      return this.getDecoratorVersions(route, controller, options).map(version => {
+        if (version === 'VERSION_NEUTRAL') {
+          return { path: this.combinePaths(prefix, controllerPath, routePath) };
+        }
+
+        return inPath
+          ? { path: this.combinePaths(prefix, `${uriPrefix}${version}`, controllerPath, routePath), version }
+          : { path: this.combinePaths(prefix, controllerPath, routePath), version };
+      });
+    }
+
+    if (options.versioning?.enabled && controller.version) {
+      // Use detected version from file path
+      const versionPrefix = options.versioning.prefix || '/api';
+      return [{ path: this.combinePaths(versionPrefix, controller.version, controllerPath, routePath), version: controller.version }];
+    }
+
+    if (options.versioning?.enabled && options.versioning.fallback) {
+      // Use fallback prefix when version not detected
+      return [{ path: this.combinePaths(options.versioning.fallback, controllerPath, routePath) }];
+    }
+
+    // Use globalPrefix (backwards compatible)
+    return [{ path: this.combinePaths(options.globalPrefix || '', controllerPath, routePath) }];
+  }
+
+  /**
+   * Get the versions a route serves with decorator versioning
+   * Precedence: @Version() > @Controller({ version }) > versioning.defaultVersion
+   * Routes without any version are served version-neutral
+   */
+  private getDecoratorVersions(
+    route: RouteMetadata,
+    controller: ControllerMetadata,
+    options: AutoDocsOptions,
+  ): string[] {
+    if (route.versions?.length) {
+      return route.versions;
+    }
+
+    if (controller.versions?.length) {
+      return controller.versions;
+    }
+
+    const defaultVersion = options.versioning?.defaultVersion;
+    if (defaultVersion) {
+      return Array.isArray(defaultVersion) ? defaultVersion : [defaultVersion];
+    }
+
+    return ['VERSION_NEUTRAL'];
+  }
+
+  /**
+   * Get the versioning type that keeps versions out of the path, if enabled
+   */
+  private getVersionNegotiationType(options: AutoDocsOptions): 'header' | 'media-type' | undefined {
+    const versioning = options.versioning;
+    if (!versioning?.enabled || versioning.strategy !== 'decorator') {
+      return undefined;
+    }
+
+    return versioning.type === 'header' || versioning.type === 'media-type'
+      ? versioning.type
+      : undefined;
+  }
+
+  /**
+   * Document how a client selects a version of an operation
+   * - header: a required header parameter with the version as enum
+   * - media-type: versioned content types (e.g. application/json;v=2), also for
+   *   successful responses without a body so clients know what to send in Accept
+   */
+  private applyVersionNegotiation(
+    operation: OperationObject,
+    version: string,
+    type: 'header' | 'media-type',
+    options: AutoDocsOptions,
+  ): void {
+    if (type === 'header') {
+      operation.parameters = [
+        ...(operation.parameters || []),
+        {
+          name: options.versioning?.header || 'X-API-Version',
+          in: 'header',
+          required: true,
+          description: 'API version',
+          schema: { type: 'string', enum: [version] },
+        },
+      ];
+      return;
+    }
+
+    const mediaType = `application/json;${options.versioning?.mediaTypeKey ?? 'v='}${version}`;
+    const versionContent = (content?: ContentObject): ContentObject | undefined => {
+      if (!content) return undefined;
+
+      return Object.fromEntries(
+        Object.entries(content).map(([key, value]) => [key === 'application/json' ? mediaType : key, value]),
+      );
+    };
+
+    if (operation.requestBody) {
+      operation.requestBody.content = versionContent(operation.requestBody.content)!;
+    }
+
+    for (const [status, response] of Object.entries(operation.responses)) {
+      response.content = response.content || !status.startsWith('2')
+        ? versionContent(response.content)
+        : { [mediaType]: {} };
+    }
+  }
+
+  /**
+   * Merge two operations documented on the same path and method for different versions
+   * Header version enums and media types are combined; parameters that only one
+   * version accepts become optional. Schemas that differ between versions become a
+   * oneOf with one alternative per version, and when different handlers serve the
+   * versions their operationIds and descriptions are listed in x-versions
+   */
+  private mergeVersionedOperations(
+    existing: OperationObject,
+    existingVersions: string[],
+    incoming: OperationObject,
+    incomingVersion: string,
+  ): OperationObject {
+    const existingParams = existing.parameters || [];
+    const incomingParams = incoming.parameters || [];
+    const isSameParam = (a: ParameterObject, b: ParameterObject) => a.name === b.name && a.in === b.in;
+
+    const parameters: ParameterObject[] = existingParams.map(param => {
+      const match = incomingParams.find(other => isSameParam(param, other));
+      if (!match) {
+        return { ...param, required: param.in === 'path' };
+      }
+
+      if (param.schema?.enum && match.schema?.enum) {
+        const values = Array.from(new Set([...param.schema.enum, ...match.schema.enum]));
+        return { ...param, schema: { ...param.schema, enum: values } };
+      }
+
+      return param;
+    });
+
+    for (const param of incomingParams) {
+      if (!existingParams.some(other => isSameParam(param, other))) {
+        parameters.push({ ...param, required: param.in === 'path' });
+      }
+    }
+
+    const mergeContent = (a?: ContentObject, b?: ContentObject) =>
+      this.mergeContent(a, existingVersions, b, incomingVersion);
+
+    const responses: ResponsesObject = { ...existing.responses };
+    for (const [status, response] of Object.entries(incoming.responses)) {
+      responses[status] = responses[status]
+        ? { ...responses[status], content: mergeContent(responses[status].content, response.content) }
+        : response;
+    }
+
+    const requestBody = existing.requestBody && incoming.requestBody
+      ? { ...existing.requestBody, content: mergeContent(existing.requestBody.content, incoming.requestBody.content)! }
+      : existing.requestBody || incoming.requestBody;
+
+    const merged: OperationObject = {
+      ...existing,
+      parameters: parameters.length > 0 ? parameters : undefined,
+      requestBody,
+      responses,
+    };
+
+    // Different handlers per version (e.g. findAllV1 and findAllV2) keep their own id and description
+    const versions: Record<string, { operationId?: string; description?: string }> = existing['x-versions'] ||
+      Object.fromEntries(existingVersions.map(version => [
+        version,
+        { operationId: existing.operationId, description: existing.description || existing.summary },
+      ]));
+    versions[incomingVersion] = {
+      operationId: incoming.operationId,
+      description: incoming.description || incoming.summary,
+    };
+
+    if (new Set(Object.values(versions).map(entry => entry.operationId)).size > 1) {
+      merged['x-versions'] = versions;
+      merged.description = Object.entries(versions)
+        .map(([version, entry]) => `**Version ${version}** (\`${entry.operationId}\`): ${entry.description}`)
+        .join('\n\n');
+    }
+
+    return merged;
+  }
+
+  /**
+   * Merge the content maps of two versions of an operation
+   * New media types are added; a media type whose schema differs gets a oneOf of both
+   */
+  private mergeContent(
+    a: ContentObject | undefined,
+    aVersions: string[],
+    b: ContentObject | undefined,
+    bVersion: string,
+  ): ContentObject | undefined {
+    if (!a && !b) return undefined;
+
+    const merged: ContentObject = { ...(a || {}) };
+    for (const [mediaType, value] of Object.entries(b || {})) {
+      merged[mediaType] = merged[mediaType]
+        ? { ...merged[mediaType], schema: this.mergeVersionSchemas(merged[mediaType].schema, aVersions, value.schema, bVersion) }
+        : value;
+    }
+
+    return merged;
+  }
+
+  /**
+   * Combine the schemas of two versions
+   * Examples:
+   * - UserDto (v1) + UserDto (v2) -> UserDto
+   * - UserV1Dto (v1) + UserV2Dto (v2) -> oneOf: [API version 1: UserV1Dto, API version 2: UserV2Dto]
+   */
+  private mergeVersionSchemas(
+    a: SchemaObject | undefined,
+    aVersions: string[],
+    b: SchemaObject | undefined,
+    bVersion: string,
+  ): SchemaObject | undefined {
+    if (!a || !b) return a || b;
+
+    const isUnion = !!a.oneOf?.every(alternative => this.versionAlternatives.has(alternative));
+    if (!isUnion && JSON.stringify(a) === JSON.stringify(b)) return a;
+
+    const alternatives = isUnion
+      ? a.oneOf!.map(alternative => ({ schema: alternative.allOf![0], versions: this.versionAlternatives.get(alternative)! }))
+      : [{ schema: a, versions: aVersions }];
+
+    const match = alternatives.find(alternative => JSON.stringify(alternative.schema) === JSON.stringify(b));
+    if (match) {
+      match.versions = [...match.versions, bVersion];
+    } else {
+      alternatives.push({ schema: b, versions: [bVersion] });
+    }
+
+    // $ref siblings are ignored, so the schema is wrapped in allOf to carry the description
+    return {
+      oneOf: alternatives.map(({ schema, versions }) => {
+        const alternative: SchemaObject = {
+          description: `API version ${versions.join(', ')}`,
+          allOf: [schema],
+        };
+        this.versionAlternatives.set(alternative, versions);
+        return alternative;
+      }),
+    };
+  }
+
   /**
    * Create operation object for a route
    */
-  private createOperation(route: RouteMetadata, controller: ControllerMetadata): OperationObject {
+  private createOperation(
+    route: RouteMetadata,
+    controller: ControllerMetadata,
+    options: AutoDocsOptions,
+    version?: string,
+    alias?: number,
+  ): OperationObject {
+    const operationId = [
+      `${controller.name}_${route.name}`,
+      version ? `_${this.formatVersionLabel(version)}` : '',
+      alias ? `_${alias + 1}` : '',
+    ].join('');
+
+    const security = this.securityGenerator.getSecurityRequirements(route, controller, options);
+
     const operation: OperationObject = {
       summary: route.description || `${route.httpMethod} ${route.path}`,
       description: route.description,
-      tags: controller.category ? [controller.category] : undefined,
-      operationId: `${controller.name}_${route.name}`,
-      parameters: this.createParameters(route.params || []),
+      tags: controller.category ? this.getControllerTags(controller) : undefined,
+      operationId,
+      parameters: this.createParameters(route, controller, options),
       responses: {
-        '200': {
-          description: 'Successful response',
-          content: route.responseType
-            ? {
-                'application/json': {
-                  schema: this.convertDtoToSchema(route.responseType),
-                },
-              }
-            : undefined,
-        },
-        '400': {
-          description: 'Bad request',
-        },
-        '401': {
-          description: 'Unauthorized',
-        },
-        '500': {
-          description: 'Internal server error',
-        },
+        ...this.createSuccessResponse(route),
+        ...this.createErrorResponses(route, !!security),
       },
-      security: route.isPublic ? undefined : [{ bearerAuth: [] }],
+      security,
+      servers: controller.hosts?.map(host => this.createHostServer(host, options)),
     };
 
+    // Document who may call the route (e.g. @Roles('admin'))
+    if (route.roles?.length) {
+      operation['x-required-roles'] = route.roles;
+      operation.description = [route.description, `**Required roles:** ${route.roles.join(', ')}`]
+        .filter(Boolean)
+        .join('\n\n');
+    }
+
     // Add request body if needed (POST, PUT, PATCH)
     if (['POST', 'PUT', 'PATCH'].includes(route.httpMethod)) {
-      if (route.requestBody) {
+      if (route.fileUploads?.length) {
+        operation.requestBody = {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: this.createMultipartSchema(route.fileUploads, route.requestBody),
+            },
+          },
+        };
+      } else if (route.requestBody) {
         operation.requestBody = {
           required: true,
           content: {
@@ -190,20 +650,217 @@ export class OpenApiGenerator {
     return operation;
   }
 
+  /**
+   * Create the server of a host-bound controller
+   * Host parameters become server variables; the URL scheme is the one of the
+   * configured servers (or baseServerURL), https when none is absolute
+   * Examples:
+   * - ':account.example.com' -> { url: 'https://{account}.example.com', variables: { account } }
+   * - 'admin.localhost' with servers [{ url: 'http://localhost:3000' }] -> { url: 'http://admin.localhost' }
+   */
+  private createHostServer(host: string, options: AutoDocsOptions): ServerObject {
+    const variables = Array.from(host.matchAll(/:(\w+)/g), ([, name]) => name);
+    const configuredUrl = [...(options.servers || []).map(server => server.url), options.baseServerURL]
+      .find(url => url && /^https?:\/\//i.test(url));
+    const scheme = configuredUrl?.split(':')[0].toLowerCase() || 'https';
+
+    const server: ServerObject = {
+      url: `${scheme}://${host.replace(/:(\w+)/g, '{$1}')}`,
+      description: `Host ${host}`,
+    };
+
+    if (variables.length > 0) {
+      server.variables = Object.fromEntries(
+        variables.map(name => [name, { default: name, description: `Value of the :${name} host parameter` }]),
+      );
+    }
+
+    return server;
+  }
+
+  /**
+   * Create the multipart/form-data schema of an upload route
+   * File fields are binary strings; @Body() DTO fields are sent in the same form
+   * Examples:
+   * - FileInterceptor('avatar') -> { avatar: { type: 'string', format: 'binary' } }
+   * - FilesInterceptor('photos', 5) -> { photos: { type: 'array', items: binary, maxItems: 5 } }
+   */
+  private createMultipartSchema(fileUploads: FileUploadMetadata[], body?: DtoMetadata): SchemaObject {
+    const schema = this.buildObjectSchema(body?.properties || [], body?.description);
+    const required = schema.required || [];
+
+    for (const upload of fileUploads) {
+      const fileSchema: SchemaObject = { type: 'string', format: 'binary' };
+      const description = upload.constraints?.join('. ');
+
+      // AnyFilesInterceptor accepts files in any field
+      if (!upload.fieldName) {
+        schema.additionalProperties = description ? { ...fileSchema, description } : fileSchema;
+        continue;
+      }
+
+      const fieldSchema: SchemaObject = upload.isArray
+        ? { type: 'array', items: fileSchema }
+        : { ...fileSchema };
+
+      if (upload.isArray && upload.maxCount !== undefined) {
+        fieldSchema.maxItems = upload.maxCount;
+      }
+      if (description) {
+        fieldSchema.description = description;
+      }
+
+      schema.properties![upload.fieldName] = fieldSchema;
+
+      if (upload.required && !required.includes(upload.fieldName)) {
+        required.push(upload.fieldName);
+      }
+    }
+
+    if (required.length > 0) {
+      schema.required = required;
+    }
+
+    return schema;
+  }
+
+  /**
+   * Create the success response of a route
+   * - @Redirect(url, code) -> redirect status with a Location header
+   * - @HttpCode(code) -> that status
+   * - otherwise NestJS defaults: 201 for POST, 200 for everything else
+   * 204 responses and void handlers have no content
+   */
+  private createSuccessResponse(route: RouteMetadata): ResponsesObject {
+    const headers: Record<string, HeaderObject> = {};
+
+    for (const [name, value] of Object.entries(route.responseHeaders || {})) {
+      headers[name] = { schema: { type: 'string', example: value } };
+    }
+
+    if (route.redirect) {
+      headers.Location = {
+        description: 'Redirect target',
+        schema: { type: 'string', ...(route.redirect.url && { example: route.redirect.url }) },
+      };
+
+      return {
+        [String(route.redirect.statusCode)]: { description: 'Redirect', headers },
+      };
+    }
+
+    const statusCode = route.statusCode ?? (route.httpMethod === 'POST' ? 201 : 200);
+    const hasContent = !!route.responseType && statusCode !== 204 && !route.returnsVoid;
+
+    const descriptions: Record<number, string> = {
+      201: 'Created',
+      202: 'Accepted',
+      204: 'No content',
+    };
+
+    return {
+      [String(statusCode)]: {
+        description: descriptions[statusCode] || 'Successful response',
+        headers: Object.keys(headers).length > 0 ? headers : undefined,
+        content: hasContent
+          ? {
+              'application/json': {
+                schema: this.convertDtoToSchema(route.responseType!),
+              },
+            }
+          : undefined,
+      },
+    };
+  }
+
+  /**
+   * Create error responses a route can actually return
+   * - 400 when a request body, uploaded file or parameter (parse pipe or validated query DTO) is validated
+   * - 401 when the route is secured
+   * - every HttpException thrown by the handler or the services it calls
+   */
+  private createErrorResponses(route: RouteMetadata, isSecured: boolean): ResponsesObject {
+    const responses: ResponsesObject = {};
+
+    const hasValidatedParams = route.params?.some(param => param.validated || (param.validators?.length ?? 0) > 0);
+
+    if (
+      route.requestBody ||
+      hasValidatedParams ||
+      route.fileUploads?.some(upload => upload.required || upload.constraints)
+    ) {
+      responses['400'] = { description: 'Bad request' };
+    }
+
+    if (isSecured) {
+      responses['401'] = { description: 'Unauthorized' };
+    }
+
+    for (const exception of route.exceptions || []) {
+      const statusCode = String(exception.statusCode);
+      const existing = responses[statusCode];
+
+      responses[statusCode] = {
+        description: existing ? `${existing.description} or ${exception.description}` : exception.description,
+      };
+    }
+
+    return responses;
+  }
+
   /**
    * Create parameters array from route params
    */
-  private createParameters(params: ParamMetadata[]): ParameterObject[] | undefined {
+  private createParameters(
+    route: RouteMetadata,
+    controller: ControllerMetadata,
+    options: AutoDocsOptions,
+  ): ParameterObject[] | undefined {
     const parameters: ParameterObject[] = [];
 
-    for (const param of params) {
-      if (param.in === 'path' || param.in === 'query') {
+    for (const param of route.params || []) {
+      // OpenAPI ignores Accept, Content-Type and Authorization header parameters
+      if (param.in === 'header' && IGNORED_HEADERS.includes(param.name.toLowerCase())) {
+        continue;
+      }
+
+      if (param.in === 'path' || param.in === 'query' || param.in === 'header') {
+        const schema = this.convertTypeToSchema(param.type);
+        if (param.defaultValue !== undefined && !schema.$ref) {
+          schema.default = param.defaultValue;
+        }
+
+        // Apply validator constraints of @Query() DTO properties (min/max, enum, ...)
+        if (!schema.$ref) {
+          for (const validator of param.validators || []) {
+            this.applyValidatorConstraints(schema, validator);
+          }
+        }
+
         parameters.push({
           name: param.name,
           in: param.in,
           required: param.in === 'path' || param.required,
-          schema: this.convertTypeToSchema(param.type),
+          schema,
           description: param.description,
+          ...(param.in === 'query' && param.type.isArray && this.getArraySerialization(param.arraySeparator)),
+        });
+      }
+    }
+
+    // Global headers (configured or read by middleware), unless the route declares them itself
+    for (const header of options.globalHeaders || []) {
+      const isDeclared = parameters.some(
+        param => param.in === 'header' && param.name.toLowerCase() === header.name.toLowerCase(),
+      );
+
+      if (!isDeclared && this.appliesToRoute(header, route, controller)) {
+        parameters.push({
+          name: header.name,
+          in: 'header',
+          required: header.required !== false,
+          schema: header.schema || { type: 'string' },
+          description: header.description,
         });
       }
     }
@@ -212,33 +869,60 @@ export class OpenApiGenerator {
   }
 
   /**
-   * Convert DtoMetadata to OpenAPI SchemaObject
+   * Check whether a global header applies to a route
+   * Patterns match the route path (e.g. 'users/*') or the controller class name
    */
-  private convertDtoToSchema(dto: DtoMetadata): SchemaObject {
-    const schema: SchemaObject = {
-      type: 'object',
-      properties: {},
-    };
+  private appliesToRoute(header: GlobalHeaderConfig, route: RouteMetadata, controller: ControllerMetadata): boolean {
+    const routePath = route.fullPath.replace(/^\/+/, '');
+    const matches = (pattern: string) => {
+      if (pattern === controller.name) return true;
 
-    const required: string[] = [];
+      const source = pattern
+        .replace(/^\/+/, '')
+        .replace(/\(\.\*\)/g, '*')
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
 
-    for (const prop of dto.properties) {
-      schema.properties![prop.name] = this.convertPropertyToSchema(prop);
+      return new RegExp(`^${source}$`).test(routePath);
+    };
 
-      if (prop.required) {
-        required.push(prop.name);
-      }
-    }
+    if (header.include && !header.include.some(matches)) return false;
+    if (header.exclude && header.exclude.some(matches)) return false;
 
-    if (required.length > 0) {
-      schema.required = required;
+    return true;
+  }
+
+  /**
+   * Get the style/explode of an array query parameter
+   * Examples:
+   * - no separator -> form, explode (?tag=a&tag=b)
+   * - ',' -> form (?tag=a,b)
+   * - '|' -> pipeDelimited (?tag=a|b)
+   */
+  private getArraySerialization(separator?: string): Pick<ParameterObject, 'style' | 'explode'> {
+    switch (separator) {
+      case undefined:
+        return { style: 'form', explode: true };
+      case '|':
+        return { style: 'pipeDelimited', explode: false };
+      case ' ':
+        return { style: 'spaceDelimited', explode: false };
+      default:
+        return { style: 'form', explode: false };
     }
+  }
 
-    if (dto.description) {
-      schema.description = dto.description;
+  /**
+   * Convert DtoMetadata to OpenAPI SchemaObject
+   * Class-backed DTOs are registered as component schemas and referenced
+   */
+  private convertDtoToSchema(dto: DtoMetadata): SchemaObject {
+    if (dto.filePath) {
+      return this.getSchemaRef(this.getSchemaKey(dto.name, dto.filePath));
     }
 
-    return schema;
+    return this.buildObjectSchema(dto.properties, dto.description);
   }
 
   /**
@@ -249,6 +933,14 @@ export class OpenApiGenerator {
       return { type: 'object' };
     }
 
+    // Handle arrays
+    if (typeMetadata.isArray && typeMetadata.elementType) {
+      return {
+        type: 'array',
+        items: this.convertTypeToSchema(typeMetadata.elementType),
+      };
+    }
+
     const schema: SchemaObject = {};
 
     // Handle primitives
@@ -260,46 +952,233 @@ export class OpenApiGenerator {
       return schema;
     }
 
-    // Handle arrays
-    if (typeMetadata.isArray && typeMetadata.elementType) {
-      return {
-        type: 'array',
-        items: this.convertTypeToSchema(typeMetadata.elementType),
-      };
-    }
-
     // Handle enums
     if (typeMetadata.isEnum && typeMetadata.enumValues) {
       return {
-        type: 'string',
+        type: typeMetadata.type === 'number' ? 'number' : 'string',
         enum: typeMetadata.enumValues,
       };
     }
 
-    // Handle objects/classes
+    // Handle classes (referenced as component schemas)
+    if (typeMetadata.className && typeMetadata.filePath) {
+      return this.getSchemaRef(this.getSchemaKey(typeMetadata.className, typeMetadata.filePath));
+    }
+
+    // Handle inline objects
     if (typeMetadata.properties) {
-      schema.type = 'object';
-      schema.properties = {};
-      const required: string[] = [];
+      return this.buildObjectSchema(typeMetadata.properties);
+    }
+
+    return schema;
+  }
 
-      for (const prop of typeMetadata.properties) {
-        schema.properties[prop.name] = this.convertPropertyToSchema(prop);
+  /**
+   * Build an object schema from a list of properties
+   */
+  private buildObjectSchema(properties: PropertyMetadata[], description?: string): SchemaObject {
+    const schema: SchemaObject = {
+      type: 'object',
+      properties: {},
+    };
+
+    const required: string[] = [];
+
+    for (const prop of properties) {
+      schema.properties![prop.name] = this.convertPropertyToSchema(prop);
+
+      const isOptional = prop.validators?.some(v => v.name === 'IsOptional');
+      if (prop.required && !isOptional) {
+        required.push(prop.name);
+      }
+    }
+
+    if (required.length > 0) {
+      schema.required = required;
+    }
+
+    if (description) {
+      schema.description = description;
+    }
+
+    return schema;
+  }
+
+  /**
+   * Get a $ref to a component schema, registering the schema on first use
+   */
+  private getSchemaRef(key: string): SchemaObject {
+    const source = this.schemaSources.get(key);
+    const name = this.schemaNames.get(key);
+
+    if (!source || !name) {
+      return { type: 'object' };
+    }
 
-        // Check if required
-        const isRequired = prop.validators?.some(v => v.name === 'IsNotEmpty' || v.constraints?.required === true);
-        const isOptional = prop.validators?.some(v => v.name === 'IsOptional' || v.constraints?.required === false);
+    if (!this.schemas.has(name)) {
+      // Register a placeholder first so self-references terminate
+      this.schemas.set(name, { type: 'object' });
+      this.schemas.set(name, this.buildObjectSchema(source.properties || [], source.description));
+    }
+
+    return { $ref: `#/components/schemas/${name}` };
+  }
 
-        if (isRequired && !isOptional) {
-          required.push(prop.name);
+  /**
+   * Collect every class-backed DTO and nested type used by the routes
+   */
+  private collectSchemaSources(controllers: ControllerMetadata[]): void {
+    for (const controller of controllers) {
+      for (const route of controller.routes) {
+        for (const dto of [route.requestBody, route.responseType]) {
+          if (!dto) continue;
+
+          if (dto.filePath) {
+            this.addSchemaSource(dto.name, dto.filePath, dto.properties, dto.description);
+          }
+          dto.properties.forEach(prop => this.collectTypeSchemaSources(prop.type));
+        }
+
+        for (const param of route.params || []) {
+          this.collectTypeSchemaSources(param.type);
         }
       }
+    }
+  }
+
+  /**
+   * Collect class-backed schemas from a type and its nested properties
+   */
+  private collectTypeSchemaSources(typeMetadata: TypeMetadata | undefined): void {
+    if (!typeMetadata) return;
+
+    if (typeMetadata.elementType) {
+      this.collectTypeSchemaSources(typeMetadata.elementType);
+    }
+
+    if (typeMetadata.className && typeMetadata.filePath) {
+      const key = this.getSchemaKey(typeMetadata.className, typeMetadata.filePath);
+      const alreadyCollected = this.schemaSources.get(key)?.properties;
+
+      this.addSchemaSource(typeMetadata.className, typeMetadata.filePath, typeMetadata.properties);
+
+      if (alreadyCollected) return;
+    }
 
-      if (required.length > 0) {
-        schema.required = required;
+    typeMetadata.properties?.forEach(prop => this.collectTypeSchemaSources(prop.type));
+  }
+
+  /**
+   * Record a schema source, preferring occurrences that carry properties
+   * (circular references only carry the class name)
+   */
+  private addSchemaSource(name: string, filePath: string, properties?: PropertyMetadata[], description?: string): void {
+    const key = this.getSchemaKey(name, filePath);
+    const existing = this.schemaSources.get(key);
+
+    if (!existing || (!existing.properties && properties)) {
+      this.schemaSources.set(key, {
+        name,
+        filePath,
+        properties,
+        description: description ?? existing?.description,
+      });
+    } else if (!existing.description && description) {
+      existing.description = description;
+    }
+  }
+
+  /**
+   * Assign a unique component name to every collected schema
+   * Same-named classes from different files are qualified by their
+   * nearest distinguishing directories (e.g. V1UsersUserDto, V2UsersUserDto),
+   * so names do not depend on scan order
+   */
+  private assignSchemaNames(): void {
+    const byName = new Map<string, SchemaSource[]>();
+
+    for (const source of this.schemaSources.values()) {
+      const group = byName.get(source.name) || [];
+      group.push(source);
+      byName.set(source.name, group);
+    }
+
+    const usedNames = new Set<string>(
+      Array.from(byName.entries())
+        .filter(([, group]) => group.length === 1)
+        .map(([name]) => name),
+    );
+
+    for (const [name, group] of Array.from(byName.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+      if (group.length === 1) {
+        this.schemaNames.set(this.getSchemaKey(name, group[0].filePath), name);
+        continue;
       }
+
+      const sorted = [...group].sort((a, b) => a.filePath.localeCompare(b.filePath));
+      const qualifiers = this.getDistinctQualifiers(sorted.map(source => source.filePath));
+
+      sorted.forEach((source, index) => {
+        let candidate = `${qualifiers[index]}${name}`;
+        let suffix = 2;
+        while (usedNames.has(candidate)) {
+          candidate = `${qualifiers[index]}${name}${suffix++}`;
+        }
+
+        usedNames.add(candidate);
+        this.schemaNames.set(this.getSchemaKey(name, source.filePath), candidate);
+      });
     }
+  }
 
-    return schema;
+  /**
+   * Build the shortest directory-based prefixes that tell file paths apart
+   */
+  private getDistinctQualifiers(filePaths: string[]): string[] {
+    const ignoredSegments = ['src', 'dto', 'dtos', 'entities', 'entity', 'models', 'model'];
+    const segmentLists = filePaths.map(filePath =>
+      filePath
+        .replace(/\\/g, '/')
+        .split('/')
+        .slice(0, -1)
+        .filter(segment => segment && !ignoredSegments.includes(segment.toLowerCase())),
+    );
+
+    const maxDepth = Math.max(...segmentLists.map(segments => segments.length));
+
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      const qualifiers = segmentLists.map(segments =>
+        segments
+          .slice(-depth)
+          .map(segment => this.toPascalCase(segment))
+          .join(''),
+      );
+
+      if (new Set(qualifiers).size === qualifiers.length) {
+        return qualifiers;
+      }
+    }
+
+    // Identical directories (should not happen): fall back to numbered names
+    return filePaths.map((_, index) => (index === 0 ? '' : `${index + 1}`));
+  }
+
+  /**
+   * Build the lookup key for a class-backed schema
+   */
+  private getSchemaKey(name: string, filePath: string): string {
+    return `${filePath}#${name}`;
+  }
+
+  /**
+   * Convert a path segment to PascalCase (e.g. 'admin-users' -> 'AdminUsers')
+   */
+  private toPascalCase(segment: string): string {
+    return segment
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+      .join('');
   }
 
   /**
@@ -311,6 +1190,14 @@ export class OpenApiGenerator {
     // Start with type metadata
     if (property.type) {
       const baseSchema = this.convertTypeToSchema(property.type);
+
+      // Siblings of $ref are ignored in OpenAPI 3.0, so wrap the reference
+      if (baseSchema.$ref) {
+        return property.description
+          ? { allOf: [baseSchema], description: property.description }
+          : baseSchema;
+      }
+
       Object.assign(schema, baseSchema);
     }
 
@@ -381,14 +1268,29 @@ export class OpenApiGenerator {
   /**
    * Generate default server configurations based on options
    */
-  private generateDefaultServers(options: AutoDocsOptions, controllers: ControllerMetadata[]): Array<{ url: string; description: string }> {
+  private generateDefaultServers(
+    options: AutoDocsOptions,
+    controllers: ControllerMetadata[],
+    version?: string,
+  ): Array<{ url: string; description: string }> {
     const servers: Array<{ url: string; description: string }> = [];
 
-    if (options.versioning?.enabled) {
+    const isDecoratorVersioning = options.versioning?.enabled && options.versioning.strategy === 'decorator';
+
+    if (isDecoratorVersioning) {
+      // Versions are part of each path, so a single server covers them all
+      const prefix = options.versioning.prefix ?? options.globalPrefix;
+      if (prefix) {
+        servers.push({
+          url: prefix,
+          description: 'API Server',
+        });
+      }
+    } else if (options.versioning?.enabled) {
       // Get unique versions from controllers
       const versions = new Set<string>();
       for (const controller of controllers) {
-        if (controller.version) {
+        if (controller.version && (!version || controller.version === version)) {
           versions.add(controller.version);
         }
       }
@@ -441,3 +1343,10 @@ export class OpenApiGenerator {
       .join('/');
   }
 }
+
+interface SchemaSource {
+  name: string;
+  filePath: string;
+  properties?: PropertyMetadata[];
+  description?: string;
+}
@@ -0,0 +1,192 @@
+import { SecurityRequirementObject, SecuritySchemeObject } from '../interfaces/openapi.interface';
+import { AutoDocsOptions, SecuritySchemeConfig } from '../interfaces/options.interface';
+import { ControllerMetadata, RouteMetadata } from '../interfaces/metadata.interface';
+
+const DEFAULT_SECURITY_SCHEMES: Record<string, SecuritySchemeConfig> = {
+  bearerAuth: {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    description: 'Enter your JWT token in the format: Bearer {token}',
+  },
+};
+
+/**
+ * Guards treated as authentication when no scheme is mapped to guards
+ * (passport's AuthGuard('jwt') and the conventional JwtAuthGuard)
+ */
+const DEFAULT_AUTH_GUARDS = ['AuthGuard', 'JwtAuthGuard'];
+
+export class SecurityGenerator {
+  /**
+   * Generate components.securitySchemes from configuration
+   * Priority: securitySchemes > securityScheme > default bearerAuth
+   * Scopes used by routes (e.g. @Scopes('users:write')) are added to OAuth2 flows
+   */
+  generateSecuritySchemes(
+    options: AutoDocsOptions,
+    controllers: ControllerMetadata[] = [],
+  ): Record<string, SecuritySchemeObject> | undefined {
+    if (options.includeSecurity === false) {
+      return undefined;
+    }
+
+    const schemes = this.getConfiguredSchemes(options);
+    const routeScopes = controllers.flatMap(controller => controller.routes.flatMap(route => route.scopes || []));
+
+    return Object.fromEntries(
+      Object.entries(schemes).map(([name, { guards, ...scheme }]) => [name, this.declareScopes(scheme, routeScopes)]),
+    );
+  }
+
+  /**
+   * Get the guards applied to a route: global guards, then controller guards, then method guards
+   */
+  getEffectiveGuards(route: RouteMetadata, controller: ControllerMetadata, options: AutoDocsOptions): string[] {
+    return Array.from(new Set([
+      ...(options.globalGuards || []),
+      ...(controller.guards || []),
+      ...(route.guards || []),
+    ]));
+  }
+
+  /**
+   * Build the security requirements of an operation from the guards applied to it
+   * Public routes (method or class level) and routes without guards have none
+   * Guards applied together must all pass, so their schemes are combined in one
+   * requirement; a guard mapped to several schemes produces alternative requirements
+   * Examples (JwtAuthGuard -> bearer, ApiKeyGuard -> apiKey):
+   * - [JwtAuthGuard] -> [{ bearer: [] }]
+   * - [JwtAuthGuard, ApiKeyGuard] -> [{ bearer: [], apiKey: [] }]
+   * - [RolesGuard] -> undefined (guard not mapped to a scheme)
+   * Without any guard mapping, only authGuards require the first scheme:
+   * - [JwtAuthGuard, ThrottlerGuard] -> [{ bearerAuth: [] }]
+   * - [ThrottlerGuard] -> undefined
+   */
+  getSecurityRequirements(
+    route: RouteMetadata,
+    controller: ControllerMetadata,
+    options: AutoDocsOptions,
+  ): SecurityRequirementObject[] | undefined {
+    if (options.includeSecurity === false || route.isPublic || controller.isPublic) {
+      return undefined;
+    }
+
+    const guards = this.getEffectiveGuards(route, controller, options);
+    if (guards.length === 0) {
+      return undefined;
+    }
+
+    const schemes = this.getConfiguredSchemes(options);
+    const schemeNames = Object.keys(schemes);
+    const hasGuardMapping = Object.values(schemes).some(scheme => scheme.guards?.length);
+
+    // Without a guard mapping, routes using an authentication guard require the first scheme
+    if (!hasGuardMapping) {
+      const authGuards = options.authGuards || DEFAULT_AUTH_GUARDS;
+      const isAuthenticated = guards.some(guard => this.matchesGuard(authGuards, guard));
+
+      return isAuthenticated && schemeNames.length > 0
+        ? [{ [schemeNames[0]]: this.getRequiredScopes(schemes[schemeNames[0]], route) }]
+        : undefined;
+    }
+
+    let requirements: SecurityRequirementObject[] = [{}];
+
+    for (const guard of guards) {
+      const alternatives = schemeNames.filter(name => this.matchesGuard(schemes[name].guards, guard));
+      if (alternatives.length === 0) continue;
+
+      requirements = requirements.flatMap(requirement =>
+        alternatives.map(name => ({ ...requirement, [name]: this.getRequiredScopes(schemes[name], route) })),
+      );
+    }
+
+    return Object.keys(requirements[0]).length > 0 ? requirements : undefined;
+  }
+
+  /**
+   * Get the scopes a route requires for a scheme
+   * Only OAuth2 and OpenID Connect requirements carry scopes
+   */
+  private getRequiredScopes(scheme: SecuritySchemeConfig, route: RouteMetadata): string[] {
+    if (scheme.type !== 'oauth2' && scheme.type !== 'openIdConnect') {
+      return [];
+    }
+
+    return route.scopes || [];
+  }
+
+  /**
+   * Add scopes used by routes but missing from the OAuth2 flows of a scheme
+   */
+  private declareScopes(scheme: SecuritySchemeObject, scopes: string[]): SecuritySchemeObject {
+    if (scheme.type !== 'oauth2' || !scheme.flows || scopes.length === 0) {
+      return scheme;
+    }
+
+    const flows = Object.fromEntries(
+      Object.entries(scheme.flows).filter(([, flow]) => flow).map(([flowName, flow]) => [
+        flowName,
+        {
+          ...flow,
+          scopes: {
+            ...Object.fromEntries(scopes.map(scope => [scope, ''])),
+            ...flow.scopes,
+          },
+        },
+      ]),
+    );
+
+    return { ...scheme, flows };
+  }
+
+  /**
+   * Get configured security schemes by name
+   */
+  private getConfiguredSchemes(options: AutoDocsOptions): Record<string, SecuritySchemeConfig> {
+    if (options.securitySchemes && Object.keys(options.securitySchemes).length > 0) {
+      return options.securitySchemes;
+    }
+
+    if (options.securityScheme) {
+      return { [this.getDefaultSchemeName(options.securityScheme)]: options.securityScheme };
+    }
+
+    return DEFAULT_SECURITY_SCHEMES;
+  }
+
+  /**
+   * Get the component name of a single securityScheme
+   * Examples:
+   * - { type: 'http', scheme: 'bearer' } -> 'bearerAuth'
+   * - { type: 'http', scheme: 'basic' } -> 'basicAuth'
+   * - { type: 'apiKey' } -> 'apiKey'
+   */
+  private getDefaultSchemeName(scheme: SecuritySchemeConfig): string {
+    if (scheme.type === 'http') {
+      return `${(scheme.scheme || 'bearer').toLowerCase()}Auth`;
+    }
+
+    return scheme.type;
+  }
+
+  /**
+   * Check whether a guard expression matches one of the configured guard names
+   * Examples (configured 'JwtAuthGuard'):
+   * - JwtAuthGuard -> true
+   * - new JwtAuthGuard() -> true
+   * - AuthGuard('jwt') matches 'AuthGuard' and "AuthGuard('jwt')"
+   */
+  private matchesGuard(configuredGuards: string[] | undefined, guard: string): boolean {
+    if (!configuredGuards) return false;
+
+    const expression = guard.trim().replace(/^new\s+/, '');
+    const name = expression.split(/[(<]/)[0].trim();
+
+    return configuredGuards.some(configured => {
+      const normalized = configured.replace(/\s+/g, '');
+      return normalized === expression.replace(/\s+/g, '') || normalized === name;
+    });
+  }
+}
@@ -3,7 +3,7 @@ export { AutoDocsModule } from './module/auto-docs.module';
 export { AutoDocsService } from './module/auto-docs.service';
 
 // Interfaces
-export { AutoDocsOptions, ThemeConfig, SecuritySchemeConfig } from './interfaces/options.interface';
+export { AutoDocsOptions, ThemeConfig, SecuritySchemeConfig, GlobalHeaderConfig, TagGroupsConfig, CategoryMapping, CategoryMappingRule } from './interfaces/options.interface';
 export {
   ControllerMetadata,
   RouteMetadata,
@@ -14,6 +14,9 @@ export {
   ValidatorMetadata,
   CategoryMetadata,
   GuardMetadata,
+  ExceptionMetadata,
+  FileUploadMetadata,
+  ModuleDocsMetadata,
 } from './interfaces/metadata.interface';
 export { OpenApiSpec } from './interfaces/openapi.interface';
 
@@ -27,3 +30,4 @@ export { ValidatorExtractor } from './scanner/validator-extractor';
 export { OpenApiGenerator } from './generators/openapi-generator';
 export { CategoryGenerator } from './generators/category-generator';
 export { ExampleGenerator } from './generators/example-generator';
+export { SecurityGenerator } from './generators/security-generator';
@@ -298,4 +298,91 @@ describe('Versioning Integration', () => {
       expect(spec.servers[0].url).toBe('/api/v1');
     });
   });
+
+  describe('Per-version documents', () => {
+    let generator: OpenApiGenerator;
+
+    const route = (name: string): RouteMetadata => ({
+      name,
+      httpMethod: 'GET',
+      path: 'profile',
+      fullPath: '/profile',
+      isPublic: false,
+    });
+
+    const controllers: ControllerMetadata[] = [
+      {
+        name: 'AdminControllerV1',
+        path: 'admin',
+        filePath: 'src/api/v1/admin/admin.controller.ts',
+        category: 'Admin',
+        version: 'v1',
+        routes: [route('getProfile')],
+      },
+      {
+        name: 'UserControllerV2',
+        path: 'user',
+        filePath: 'src/api/v2/user/user.controller.ts',
+        category: 'User',
+        version: 'v2',
+        routes: [route('getProfile')],
+      },
+      {
+        name: 'HealthController',
+        path: 'health',
+        filePath: 'src/health/health.controller.ts',
+        category: 'Health',
+        routes: [route('check')],
+      },
+    ];
+
+    const options: AutoDocsOptions = {
+      title: 'Test API',
+      version: '1.0',
+      versioning: {
+        enabled: true,
+        prefix: '/api',
+        fallback: '/api',
+      },
+    };
+
+    beforeEach(() => {
+      generator = new OpenApiGenerator();
+    });
+
+    it('should list detected versions', () => {
+      expect(generator.getVersions(controllers, options)).toEqual(['v1', 'v2']);
+    });
+
+    it('should only include paths, servers and tags of the requested version', () => {
+      const spec = generator.generate(controllers, options, 'v1');
+
+      expect(Object.keys(spec.paths).sort()).toEqual(['api/health/profile', 'api/v1/admin/profile']);
+      expect(spec.servers).toEqual([{ url: '/api/v1', description: 'API V1' }]);
+      expect(spec.tags?.map(tag => tag.name)).toEqual(['Admin', 'Health']);
+    });
+
+    it('should keep every version in the combined document', () => {
+      const spec = generator.generate(controllers, options);
+
+      expect(Object.keys(spec.paths)).toHaveLength(3);
+      expect(spec.servers).toHaveLength(2);
+    });
+
+    it('should sort decorator versions naturally and label them with a v prefix', () => {
+      const decoratorControllers: ControllerMetadata[] = [
+        { ...controllers[2], routes: [{ ...route('check'), versions: ['10', '2'] }] },
+      ];
+      const decoratorOptions: AutoDocsOptions = {
+        ...options,
+        versioning: { enabled: true, strategy: 'decorator' },
+      };
+
+      const versions = generator.getVersions(decoratorControllers, decoratorOptions);
+
+      expect(versions).toEqual(['2', '10']);
+      expect(versions.map(version => generator.formatVersionLabel(version))).toEqual(['v2', 'v10']);
+      expect(Object.keys(generator.generate(decoratorControllers, decoratorOptions, '2').paths)).toEqual(['v2/health/profile']);
+    });
+  });
 });
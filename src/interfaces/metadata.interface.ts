@@ -5,10 +5,22 @@ export interface ControllerMetadata {
   name: string;
 
   /**
-   * Controller path from @Controller() decorator
+   * Controller path from @Controller() decorator (the first one when several are given)
    */
   path: string;
 
+  /**
+   * Every controller path when @Controller() lists several
+   * Example: @Controller(['users', 'members']) -> ['users', 'members']
+   */
+  paths?: string[];
+
+  /**
+   * Hosts the controller is bound to from @Controller({ host })
+   * Example: ['admin.example.com'], or [':account.example.com'] with a host parameter
+   */
+  hosts?: string[];
+
   /**
    * File path (for category detection)
    */
@@ -19,17 +31,39 @@ export interface ControllerMetadata {
    */
   category: string;
 
+  /**
+   * Every category when categoryMapping puts the controller under several tags
+   * (category is the first one)
+   */
+  categories?: string[];
+
+  /**
+   * Tag group of the category (feature module from the module import tree, when tagGroups is enabled)
+   */
+  group?: string;
+
   /**
    * API version (auto-detected from file path when versioning enabled)
    * Example: 'v1', 'v2', 'v3'
    */
   version?: string;
 
+  /**
+   * API versions from @Controller({ version }) (decorator versioning)
+   * Example: ['1', '2'], or ['VERSION_NEUTRAL'] for version-neutral controllers
+   */
+  versions?: string[];
+
   /**
    * JSDoc comment description
    */
   description?: string;
 
+  /**
+   * Documentation of the controller's module (@Module JSDoc, <module>.docs.md or README.md)
+   */
+  moduleDocs?: ModuleDocsMetadata;
+
   /**
    * Route methods in this controller
    */
@@ -39,6 +73,26 @@ export interface ControllerMetadata {
    * Class-level guards
    */
   guards?: string[];
+
+  /**
+   * Is every route public (class-level @Public() or similar)
+   */
+  isPublic?: boolean;
+}
+
+export interface ModuleDocsMetadata {
+  /**
+   * Markdown description of the module's domain
+   */
+  description?: string;
+
+  /**
+   * Link from a JSDoc @see tag
+   */
+  externalDocs?: {
+    url: string;
+    description?: string;
+  };
 }
 
 export interface RouteMetadata {
@@ -53,10 +107,16 @@ export interface RouteMetadata {
   httpMethod: HttpMethod;
 
   /**
-   * Route path from decorator
+   * Route path from decorator (the first one when several are given)
    */
   path: string;
 
+  /**
+   * Every route path when the decorator lists several
+   * Example: @Get(['profile', 'me']) -> ['profile', 'me']
+   */
+  paths?: string[];
+
   /**
    * Complete path (controller path + route path)
    */
@@ -77,6 +137,11 @@ export interface RouteMetadata {
    */
   requestBody?: DtoMetadata;
 
+  /**
+   * Uploaded files (from FileInterceptor, FilesInterceptor, FileFieldsInterceptor or AnyFilesInterceptor)
+   */
+  fileUploads?: FileUploadMetadata[];
+
   /**
    * Response DTO
    */
@@ -91,6 +156,90 @@ export interface RouteMetadata {
    * Is route public (no authentication required)
    */
   isPublic?: boolean;
+
+  /**
+   * Roles allowed to call the route (e.g. from @Roles('admin'))
+   */
+  roles?: string[];
+
+  /**
+   * OAuth2 scopes required by the route (e.g. from @Scopes('users:write'))
+   */
+  scopes?: string[];
+
+  /**
+   * HTTP exceptions the route can throw (from the handler and the services it calls)
+   */
+  exceptions?: ExceptionMetadata[];
+
+  /**
+   * Success status code from @HttpCode()
+   */
+  statusCode?: number;
+
+  /**
+   * Response headers from @Header(name, value)
+   */
+  responseHeaders?: Record<string, string>;
+
+  /**
+   * Redirect from @Redirect(url, statusCode)
+   */
+  redirect?: {
+    url?: string;
+    statusCode: number;
+  };
+
+  /**
+   * Does the handler return void (no response body)
+   */
+  returnsVoid?: boolean;
+
+  /**
+   * API versions from @Version() decorator (overrides controller versions)
+   * Example: ['1', '2'], or ['VERSION_NEUTRAL'] for version-neutral routes
+   */
+  versions?: string[];
+}
+
+export interface ExceptionMetadata {
+  /**
+   * HTTP status code (e.g. 404)
+   */
+  statusCode: number;
+
+  /**
+   * Exception messages (e.g. 'User not found')
+   */
+  description: string;
+}
+
+export interface FileUploadMetadata {
+  /**
+   * Form field name (undefined for AnyFilesInterceptor, which accepts any field)
+   */
+  fieldName?: string;
+
+  /**
+   * Does the field accept several files
+   */
+  isArray: boolean;
+
+  /**
+   * Maximum number of files (e.g. FilesInterceptor('photos', 10))
+   */
+  maxCount?: number;
+
+  /**
+   * Is the file required (ParseFilePipe with fileIsRequired not set to false)
+   */
+  required: boolean;
+
+  /**
+   * Constraints from ParseFilePipe validators
+   * Example: ['Max size: 2 MB', 'Allowed types: image/jpeg']
+   */
+  constraints?: string[];
 }
 
 export interface ParamMetadata {
@@ -118,6 +267,28 @@ export interface ParamMetadata {
    * Parameter description
    */
   description?: string;
+
+  /**
+   * Validation rules (for parameters expanded from @Query() DTO properties)
+   */
+  validators?: ValidatorMetadata[];
+
+  /**
+   * Default value (from a parameter initializer or DefaultValuePipe)
+   */
+  defaultValue?: any;
+
+  /**
+   * Separator of array values parsed by ParseArrayPipe (e.g. ',' for ?ids=1,2,3)
+   * Arrays without a separator are sent as repeated keys (?ids=1&ids=2)
+   */
+  arraySeparator?: string;
+
+  /**
+   * Is the value checked by a parse pipe (ParseIntPipe, ParseUUIDPipe, ParseEnumPipe, ...)
+   * that rejects invalid input with 400
+   */
+  validated?: boolean;
 }
 
 export interface DtoMetadata {
@@ -135,6 +306,11 @@ export interface DtoMetadata {
    * DTO description from JSDoc
    */
   description?: string;
+
+  /**
+   * File path of the DTO class (used to name component schemas)
+   */
+  filePath?: string;
 }
 
 export interface PropertyMetadata {
@@ -219,6 +395,16 @@ export interface TypeMetadata {
    * Format hint (email, url, date-time, etc.)
    */
   format?: string;
+
+  /**
+   * Declaring class name (for class-backed object types)
+   */
+  className?: string;
+
+  /**
+   * File path of the declaring class (for class-backed object types)
+   */
+  filePath?: string;
 }
 
 export interface ValidatorMetadata {
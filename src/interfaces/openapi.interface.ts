@@ -6,6 +6,7 @@ export interface OpenApiSpec {
   components?: ComponentsObject;
   tags?: TagObject[];
   security?: SecurityRequirementObject[];
+  'x-tagGroups'?: TagGroupObject[];
 }
 
 export interface InfoObject {
@@ -66,6 +67,8 @@ export interface OperationObject {
   responses: ResponsesObject;
   security?: SecurityRequirementObject[];
   deprecated?: boolean;
+  servers?: ServerObject[];
+  [extension: `x-${string}`]: any;
 }
 
 export interface ParameterObject {
@@ -74,6 +77,8 @@ export interface ParameterObject {
   description?: string;
   required?: boolean;
   deprecated?: boolean;
+  style?: 'form' | 'simple' | 'matrix' | 'label' | 'spaceDelimited' | 'pipeDelimited' | 'deepObject';
+  explode?: boolean;
   schema?: SchemaObject;
   example?: any;
 }
@@ -228,6 +233,11 @@ export interface TagObject {
   externalDocs?: ExternalDocumentationObject;
 }
 
+export interface TagGroupObject {
+  name: string;
+  tags: string[];
+}
+
 export interface ExternalDocumentationObject {
   description?: string;
   url: string;
@@ -1,3 +1,6 @@
+import { OAuthFlowsObject, SchemaObject } from './openapi.interface';
+import { ControllerMetadata } from './metadata.interface';
+
 export interface AutoDocsOptions {
   /**
    * API title shown in documentation
@@ -59,10 +62,24 @@ export interface AutoDocsOptions {
 
   /**
    * Custom category mapping for module-based categorization
-   * Key: module path (e.g., 'admin/auth')
-   * Value: display name (e.g., 'Admin Authentication')
+   * - Record: key is a category (e.g., 'admin/auth') or a glob against the controller
+   *   file path (e.g., 'src/billing/**'); value is the display name
+   * - Rules: globs or regexes against the file path, regexes with $1 substitution
+   * - Callback: returns one or several category names for a controller
+   */
+  categoryMapping?: CategoryMapping;
+
+  /**
+   * Tag order in the documentation; tags not listed follow alphabetically
+   * Example: ['Auth', 'Users', 'Billing']
    */
-  categoryMapping?: Record<string, string>;
+  tagOrder?: string[];
+
+  /**
+   * Group categories under their feature modules (x-tagGroups) using the module import tree
+   * Disabled when omitted
+   */
+  tagGroups?: TagGroupsConfig;
 
   /**
    * Scan controllers on module initialization
@@ -71,16 +88,25 @@ export interface AutoDocsOptions {
   scanOnStart?: boolean;
 
   /**
-   * Re-scan on file changes (development mode only)
+   * Re-scan changed files under sourcePath and reload open documentation pages
+   * (disabled when NODE_ENV is 'production')
    * @default false
    */
   watchMode?: boolean;
 
   /**
-   * Paths to exclude from scanning (glob patterns)
+   * Source files to exclude from scanning (glob patterns)
+   * Test files (*.spec.ts, *.e2e-spec.ts, *.test.ts) are always excluded
+   * Example: ['**\/internal/**', 'src/legacy/**']
    */
   exclude?: string[];
 
+  /**
+   * Only document controllers in files matching these glob patterns
+   * Example: ['src/billing/**', 'src/users/**']
+   */
+  include?: string[];
+
   /**
    * Include security scheme in OpenAPI spec
    * @default true
@@ -89,9 +115,69 @@ export interface AutoDocsOptions {
 
   /**
    * Custom security scheme configuration
+   * Replaces the default bearerAuth (JWT) scheme
    */
   securityScheme?: SecuritySchemeConfig;
 
+  /**
+   * Guards applied to every route (APP_GUARD providers or app.useGlobalGuards())
+   * Example: ['JwtAuthGuard']
+   */
+  globalGuards?: string[];
+
+  /**
+   * Guards that authenticate requests when no security scheme lists `guards`
+   * Routes using one of them require the first scheme; other guards
+   * (e.g. ThrottlerGuard) leave routes unsecured
+   * @default ['AuthGuard', 'JwtAuthGuard']
+   */
+  authGuards?: string[];
+
+  /**
+   * How many levels of calls (e.g. controller -> service -> repository) are
+   * followed when looking for thrown HttpExceptions
+   * @default 2
+   */
+  exceptionAnalysisDepth?: number;
+
+  /**
+   * Decorators whose arguments list the roles allowed to call a route
+   * Documented as x-required-roles and in the operation description
+   * @default ['Roles']
+   */
+  roleDecorators?: string[];
+
+  /**
+   * Decorators whose arguments list the OAuth2 scopes a route requires
+   * Documented as the scopes of oauth2/openIdConnect security requirements
+   * @default ['Scopes']
+   */
+  scopeDecorators?: string[];
+
+  /**
+   * Named security schemes (takes precedence over securityScheme)
+   * Operations require the schemes whose `guards` apply to them
+   * Example:
+   * {
+   *   bearer: { type: 'http', scheme: 'bearer', guards: ['JwtAuthGuard'] },
+   *   apiKey: { type: 'apiKey', in: 'header', name: 'x-api-key', guards: ['ApiKeyGuard'] },
+   * }
+   */
+  securitySchemes?: Record<string, SecuritySchemeConfig>;
+
+  /**
+   * Request headers documented on every operation (or on operations matching include/exclude)
+   * Example: [{ name: 'x-tenant-id', description: 'Tenant identifier' }]
+   */
+  globalHeaders?: GlobalHeaderConfig[];
+
+  /**
+   * Detect headers read by middleware (consumer.apply(...).forRoutes(...)) and
+   * document them like globalHeaders
+   * @default true
+   */
+  detectMiddlewareHeaders?: boolean;
+
   /**
    * API versioning configuration
    * Enables automatic version detection from file paths
@@ -131,7 +217,8 @@ export interface VersioningConfig {
   /**
    * Versioning strategy
    * - 'path': Auto-detect from file path (e.g., src/api/v1/... → /api/v1/...)
-   * - 'decorator': Use NestJS @Version() decorator (future feature)
+   * - 'decorator': Use NestJS @Controller({ version }) and @Version() decorators
+   *   (URI versioning via app.enableVersioning({ type: VersioningType.URI }))
    * @default 'path'
    */
   strategy?: 'path' | 'decorator';
@@ -139,10 +226,46 @@ export interface VersioningConfig {
   /**
    * Prefix to prepend before version (e.g., '/api')
    * Combined with detected version: /api + /v1 = /api/v1/...
-   * @default '/api'
+   * @default '/api' ('path' strategy), globalPrefix ('decorator' strategy)
    */
   prefix?: string;
 
+  /**
+   * How clients select a version ('decorator' strategy)
+   * Mirrors VersioningType passed to app.enableVersioning()
+   * - 'uri': Version in the path (e.g., /v2/users)
+   * - 'header': Version in a request header; paths stay the same
+   * - 'media-type': Version in the Accept header (e.g., application/json;v=2)
+   * @default 'uri'
+   */
+  type?: 'uri' | 'header' | 'media-type';
+
+  /**
+   * Request header carrying the version ('header' type)
+   * @default 'X-API-Version'
+   */
+  header?: string;
+
+  /**
+   * Key placed before the version in the media type ('media-type' type)
+   * Example: 'v=' → application/json;v=2
+   * @default 'v='
+   */
+  mediaTypeKey?: string;
+
+  /**
+   * Prefix placed before each version number in URIs ('decorator' strategy)
+   * Mirrors the `prefix` option of app.enableVersioning()
+   * @default 'v'
+   */
+  uriPrefix?: string;
+
+  /**
+   * Version used for routes without @Version() or a controller version ('decorator' strategy)
+   * Mirrors the `defaultVersion` option of app.enableVersioning()
+   */
+  defaultVersion?: string | string[];
+
   /**
    * Fallback prefix when no version detected
    * Used for controllers without version in path
@@ -150,6 +273,38 @@ export interface VersioningConfig {
   fallback?: string;
 }
 
+export type CategoryMapping =
+  | Record<string, string>
+  | CategoryMappingRule[]
+  | ((controller: ControllerMetadata) => string | string[] | undefined);
+
+export interface CategoryMappingRule {
+  /**
+   * Glob (e.g. 'src/billing/**') or regex (e.g. /modules\/(\w+)\//) matched against the controller file path
+   */
+  match: string | RegExp;
+
+  /**
+   * Category name; regex capture groups can be referenced as $1, $2, ...
+   */
+  category: string;
+}
+
+export interface TagGroupsConfig {
+  /**
+   * Module at the root of the import tree
+   * @default 'AppModule'
+   */
+  rootModule?: string;
+
+  /**
+   * Import level below the root module whose modules become groups
+   * Example: 1 groups by the modules AppModule imports (BillingModule, IdentityModule)
+   * @default 1
+   */
+  depth?: number;
+}
+
 export interface ServerConfig {
   url: string;
   description?: string;
@@ -174,6 +329,37 @@ export interface ThemeConfig {
   logo?: string;
 }
 
+export interface GlobalHeaderConfig {
+  /**
+   * Header name (e.g. 'x-tenant-id')
+   */
+  name: string;
+
+  description?: string;
+
+  /**
+   * @default true
+   */
+  required?: boolean;
+
+  /**
+   * Header value schema
+   * @default { type: 'string' }
+   */
+  schema?: SchemaObject;
+
+  /**
+   * Route path patterns (e.g. 'users/*') or controller class names the header applies to
+   * Applies to every operation when omitted
+   */
+  include?: string[];
+
+  /**
+   * Route path patterns or controller class names the header does not apply to
+   */
+  exclude?: string[];
+}
+
 export interface SecuritySchemeConfig {
   type: 'apiKey' | 'http' | 'oauth2' | 'openIdConnect';
   description?: string;
@@ -181,4 +367,12 @@ export interface SecuritySchemeConfig {
   in?: 'query' | 'header' | 'cookie';
   scheme?: string;
   bearerFormat?: string;
+  flows?: OAuthFlowsObject;
+  openIdConnectUrl?: string;
+
+  /**
+   * Guard class names enforcing this scheme (e.g. ['JwtAuthGuard'])
+   * When no scheme lists guards, routes using one of the authGuards require the first scheme
+   */
+  guards?: string[];
 }
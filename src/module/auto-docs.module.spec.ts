@@ -0,0 +1,75 @@
+import 'reflect-metadata';
+import { Type } from '@nestjs/common';
+import { PATH_METADATA, SSE_METADATA } from '@nestjs/common/constants';
+import { Test } from '@nestjs/testing';
+import { AutoDocsModule } from './auto-docs.module';
+import { AutoDocsOptions } from '../interfaces/options.interface';
+
+describe('AutoDocsModule', () => {
+  const getRoutePath = (controller: Type<any>, methodName: string) =>
+    Reflect.getMetadata(PATH_METADATA, controller.prototype[methodName]);
+
+  describe('forRoot', () => {
+    it('should serve docs at the default paths', () => {
+      const module = AutoDocsModule.forRoot({ title: 'API', version: '1.0.0' });
+      const controller = module.controllers![0];
+
+      expect(getRoutePath(controller, 'getScalarUI')).toBe('/docs');
+      expect(getRoutePath(controller, 'getOpenApiSpec')).toBe('/docs-json');
+      expect(getRoutePath(controller, 'getVersionedOpenApiSpec')).toBe('/docs-json/:version');
+      expect(getRoutePath(controller, 'getStats')).toBe('/docs/stats');
+      expect(getRoutePath(controller, 'rescan')).toBe('/docs/rescan');
+      expect(getRoutePath(controller, 'events')).toBe('/docs/events');
+      expect(Reflect.getMetadata(SSE_METADATA, controller.prototype.events)).toBe(true);
+    });
+
+    it('should serve docs at custom docsPath and specPath', () => {
+      const module = AutoDocsModule.forRoot({
+        title: 'API',
+        version: '1.0.0',
+        docsPath: '/internal/api-reference/',
+        specPath: '/internal/openapi.json',
+      });
+      const controller = module.controllers![0];
+
+      expect(getRoutePath(controller, 'getScalarUI')).toBe('/internal/api-reference');
+      expect(getRoutePath(controller, 'getOpenApiSpec')).toBe('/internal/openapi.json');
+      expect(getRoutePath(controller, 'getVersionedOpenApiSpec')).toBe('/internal/openapi.json/:version');
+      expect(getRoutePath(controller, 'getStats')).toBe('/internal/api-reference/stats');
+    });
+
+    it('should keep paths of separate registrations independent', () => {
+      const first = AutoDocsModule.forRoot({ title: 'A', version: '1.0.0', docsPath: '/a-docs' });
+      const second = AutoDocsModule.forRoot({ title: 'B', version: '1.0.0', docsPath: '/b-docs' });
+
+      expect(getRoutePath(first.controllers![0], 'getScalarUI')).toBe('/a-docs');
+      expect(getRoutePath(second.controllers![0], 'getScalarUI')).toBe('/b-docs');
+    });
+  });
+
+  describe('forRootAsync', () => {
+    it('should apply docsPath and specPath from the options factory', async () => {
+      const dynamicModule = AutoDocsModule.forRootAsync({
+        useFactory: async (): Promise<AutoDocsOptions> => ({
+          title: 'API',
+          version: '1.0.0',
+          docsPath: '/reference',
+          specPath: '/reference.json',
+        }),
+      });
+
+      const moduleRef = await Test.createTestingModule({ imports: [dynamicModule] }).compile();
+      const controller = dynamicModule.controllers![0];
+
+      expect(getRoutePath(controller, 'getScalarUI')).toBe('/reference');
+      expect(getRoutePath(controller, 'getOpenApiSpec')).toBe('/reference.json');
+      expect(moduleRef.get('AUTO_DOCS_OPTIONS')).toMatchObject({
+        docsPath: '/reference',
+        sourcePath: 'src',
+        includeSecurity: true,
+      });
+
+      await moduleRef.close();
+    });
+  });
+});
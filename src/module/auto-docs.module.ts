@@ -1,13 +1,13 @@
-import { DynamicModule, Module, OnModuleInit } from '@nestjs/common';
+import { DynamicModule, Module, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { AutoDocsService } from './auto-docs.service';
-import { ScalarController } from '../ui/scalar-controller';
+import { createScalarController, registerDocsRoutes } from '../ui/scalar-controller';
 import { AutoDocsOptions } from '../interfaces/options.interface';
 import { ControllerScanner } from '../scanner/controller-scanner';
 import { OpenApiGenerator } from '../generators/openapi-generator';
 import { CategoryGenerator } from '../generators/category-generator';
 
 @Module({})
-export class AutoDocsModule implements OnModuleInit {
+export class AutoDocsModule implements OnModuleInit, OnModuleDestroy {
   constructor(private readonly autoDocsService: AutoDocsService) {}
 
   async onModuleInit() {
@@ -16,24 +16,24 @@ export class AutoDocsModule implements OnModuleInit {
     }
   }
 
+  onModuleDestroy() {
+    this.autoDocsService?.stopWatching();
+  }
+
   /**
    * Register AutoDocs module with configuration
    */
   static forRoot(options: AutoDocsOptions): DynamicModule {
     // Apply defaults
-    const mergedOptions: AutoDocsOptions = {
-      sourcePath: 'src',
-      docsPath: '/docs',
-      specPath: '/docs-json',
-      scanOnStart: true,
-      watchMode: false,
-      includeSecurity: true,
-      ...options,
-    };
+    const mergedOptions = AutoDocsModule.applyDefaults(options);
+
+    // Serve docs at the configured docsPath/specPath
+    const scalarController = createScalarController();
+    registerDocsRoutes(scalarController, mergedOptions);
 
     return {
       module: AutoDocsModule,
-      controllers: [ScalarController],
+      controllers: [scalarController],
       providers: [
         {
           provide: 'AUTO_DOCS_OPTIONS',
@@ -42,7 +42,7 @@ export class AutoDocsModule implements OnModuleInit {
         {
           provide: ControllerScanner,
           useFactory: (options: AutoDocsOptions) => {
-            return new ControllerScanner(options.sourcePath || 'src');
+            return new ControllerScanner(options.sourcePath || 'src', options);
           },
           inject: ['AUTO_DOCS_OPTIONS'],
         },
@@ -72,19 +72,28 @@ export class AutoDocsModule implements OnModuleInit {
     useFactory: (...args: any[]) => Promise<AutoDocsOptions> | AutoDocsOptions;
     inject?: any[];
   }): DynamicModule {
+    const scalarController = createScalarController();
+
     return {
       module: AutoDocsModule,
-      controllers: [ScalarController],
+      controllers: [scalarController],
       providers: [
         {
           provide: 'AUTO_DOCS_OPTIONS',
-          useFactory: options.useFactory,
+          useFactory: async (...args: any[]) => {
+            const mergedOptions = AutoDocsModule.applyDefaults(await options.useFactory(...args));
+
+            // Routes are registered after providers resolve, so paths can still be applied here
+            registerDocsRoutes(scalarController, mergedOptions);
+
+            return mergedOptions;
+          },
           inject: options.inject || [],
         },
         {
           provide: ControllerScanner,
           useFactory: (opts: AutoDocsOptions) => {
-            return new ControllerScanner(opts.sourcePath || 'src');
+            return new ControllerScanner(opts.sourcePath || 'src', opts);
           },
           inject: ['AUTO_DOCS_OPTIONS'],
         },
@@ -106,4 +115,19 @@ export class AutoDocsModule implements OnModuleInit {
       exports: [AutoDocsService],
     };
   }
+
+  /**
+   * Apply default option values
+   */
+  private static applyDefaults(options: AutoDocsOptions): AutoDocsOptions {
+    return {
+      sourcePath: 'src',
+      docsPath: '/docs',
+      specPath: '/docs-json',
+      scanOnStart: true,
+      watchMode: false,
+      includeSecurity: true,
+      ...options,
+    };
+  }
 }
@@ -1,5 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import * as path from 'path';
 import { ControllerScanner } from '../scanner/controller-scanner';
+import { SourceWatcher } from '../scanner/source-watcher';
 import { OpenApiGenerator } from '../generators/openapi-generator';
 import { CategoryGenerator } from '../generators/category-generator';
 import { AutoDocsOptions } from '../interfaces/options.interface';
@@ -10,8 +13,12 @@ import { ControllerMetadata } from '../interfaces';
 export class AutoDocsService {
   private readonly logger = new Logger(AutoDocsService.name);
   private openApiSpec: OpenApiSpec | null = null;
+  private versionedSpecs: Map<string, OpenApiSpec> = new Map();
   private controllers: ControllerMetadata[] = [];
   private lastScanTime: Date | null = null;
+  private updates = new Subject<Date>();
+  private watcher: SourceWatcher | null = null;
+  private pendingScan: Promise<void> = Promise.resolve();
 
   constructor(
     private readonly options: AutoDocsOptions,
@@ -29,6 +36,10 @@ export class AutoDocsService {
     try {
       await this.scan();
       this.logger.log(`✅ AutoDocs initialized successfully - Found ${this.controllers.length} controllers`);
+
+      if (this.options.watchMode && process.env.NODE_ENV !== 'production') {
+        this.startWatching();
+      }
     } catch (error) {
       this.logger.error('Failed to initialize AutoDocs', error);
       throw error;
@@ -38,34 +49,40 @@ export class AutoDocsService {
   /**
    * Scan controllers and generate OpenAPI spec
    */
-  async scan(): Promise<void> {
+  scan(): Promise<void> {
+    return this.enqueue(() => this.scanAll());
+  }
+
+  /**
+   * Re-extract the controllers affected by changed files and regenerate the specs
+   */
+  rescanFiles(filePaths: string[]): Promise<void> {
+    return this.enqueue(() => this.rescanChangedFiles(filePaths));
+  }
+
+  /**
+   * Run scans one at a time, so that a full scan never resets scanner state
+   * while a watch-triggered rescan is still refreshing files
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.pendingScan.then(task);
+    this.pendingScan = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Scan every controller and regenerate the specs
+   */
+  private async scanAll(): Promise<void> {
     this.logger.log('Scanning controllers...');
 
     try {
       // Scan all controllers
-      let controllers = await this.controllerScanner.scanControllers();
+      const controllers = await this.controllerScanner.scanControllers();
 
       this.logger.log(`Found ${controllers.length} controllers`);
 
-      // Apply category mapping if configured
-      if (this.options.categoryMapping) {
-        controllers = this.categoryGenerator.applyCategoryMapping(
-          controllers,
-          this.options.categoryMapping,
-        );
-      }
-
-      // Log categories
-      const categories = this.categoryGenerator.getCategories(controllers);
-      this.logger.log(`Categories: ${categories.join(', ')}`);
-
-      // Store controllers
-      this.controllers = controllers;
-
-      // Generate OpenAPI spec
-      this.openApiSpec = this.openApiGenerator.generate(controllers, this.options);
-
-      this.lastScanTime = new Date();
+      this.generateSpecs(controllers);
 
       this.logger.log('✅ Scan completed successfully');
     } catch (error) {
@@ -74,6 +91,107 @@ export class AutoDocsService {
     }
   }
 
+  /**
+   * Rescan changed files; errors are logged so that watch mode keeps running
+   */
+  private async rescanChangedFiles(filePaths: string[]): Promise<void> {
+    const relativePaths = filePaths.map(filePath => path.relative(process.cwd(), filePath));
+    this.logger.log(`Files changed: ${relativePaths.join(', ')}`);
+
+    try {
+      const controllers = await this.controllerScanner.rescanFiles(filePaths);
+      this.generateSpecs(controllers);
+
+      this.logger.log(`✅ Documentation updated - ${controllers.length} controllers`);
+    } catch (error) {
+      this.logger.error('Failed to rescan changed files', error);
+    }
+  }
+
+  /**
+   * Watch sourcePath and rescan changed files (watchMode)
+   */
+  startWatching(): void {
+    if (this.watcher) return;
+
+    const sourcePath = this.options.sourcePath || 'src';
+    this.watcher = new SourceWatcher(sourcePath, filePaths => this.rescanFiles(filePaths));
+    this.watcher.start();
+
+    this.logger.log(`Watching ${sourcePath} for changes`);
+  }
+
+  /**
+   * Stop watching source files and end open update streams
+   */
+  stopWatching(): void {
+    this.watcher?.stop();
+    this.watcher = null;
+    this.updates.complete();
+  }
+
+  /**
+   * Emit the scan time whenever the specs are regenerated
+   * (open documentation pages reload through server-sent events)
+   */
+  getUpdates(): Observable<Date> {
+    return this.updates.asObservable();
+  }
+
+  /**
+   * Generate the combined and per-version specs from scanned controllers
+   */
+  private generateSpecs(scannedControllers: ControllerMetadata[]): void {
+    let controllers = scannedControllers;
+
+    // Document headers required by middleware alongside configured global headers
+    const middlewareHeaders = this.options.detectMiddlewareHeaders !== false
+      ? this.controllerScanner.scanMiddlewareHeaders()
+      : [];
+    const generatorOptions: AutoDocsOptions = {
+      ...this.options,
+      globalHeaders: [...(this.options.globalHeaders || []), ...middlewareHeaders],
+    };
+
+    // Apply category mapping if configured
+    if (this.options.categoryMapping) {
+      controllers = this.categoryGenerator.applyCategoryMapping(
+        controllers,
+        this.options.categoryMapping,
+      );
+    }
+
+    // Log categories
+    const categories = this.categoryGenerator.getCategories(controllers);
+    this.logger.log(`Categories: ${categories.join(', ')}`);
+
+    // Store controllers
+    this.controllers = controllers;
+
+    // Generate combined OpenAPI spec
+    this.openApiSpec = this.openApiGenerator.generate(controllers, generatorOptions);
+
+    // Generate one spec per API version (e.g. v1, v2)
+    this.versionedSpecs = new Map();
+    if (this.options.versioning?.enabled) {
+      const versions = this.openApiGenerator.getVersions(controllers, generatorOptions);
+
+      for (const version of versions) {
+        this.versionedSpecs.set(
+          this.openApiGenerator.formatVersionLabel(version),
+          this.openApiGenerator.generate(controllers, generatorOptions, version),
+        );
+      }
+
+      if (versions.length > 0) {
+        this.logger.log(`Versions: ${Array.from(this.versionedSpecs.keys()).join(', ')}`);
+      }
+    }
+
+    this.lastScanTime = new Date();
+    this.updates.next(this.lastScanTime);
+  }
+
   /**
    * Get the generated OpenAPI specification
    */
@@ -85,6 +203,25 @@ export class AutoDocsService {
     return this.openApiSpec;
   }
 
+  /**
+   * Get the OpenAPI specification of a single API version (e.g. 'v1')
+   * Returns undefined when the version is unknown
+   */
+  getVersionedSpec(version: string): OpenApiSpec | undefined {
+    if (!this.openApiSpec) {
+      throw new Error('OpenAPI spec not generated. Call initialize() first.');
+    }
+
+    return this.versionedSpecs.get(version);
+  }
+
+  /**
+   * Get the API versions that have their own specification
+   */
+  getVersions(): string[] {
+    return Array.from(this.versionedSpecs.keys());
+  }
+
   /**
    * Get all scanned controllers
    */
@@ -118,6 +255,7 @@ export class AutoDocsService {
       totalRoutes,
       totalCategories: categories.length,
       categories,
+      versions: this.getVersions(),
       lastScanTime: this.lastScanTime,
     };
   }
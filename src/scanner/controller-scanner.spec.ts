@@ -1,3 +1,4 @@
+import { Project } from 'ts-morph';
 import { ControllerScanner } from './controller-scanner';
 
 describe('ControllerScanner', () => {
@@ -93,4 +94,284 @@ describe('ControllerScanner', () => {
       expect(scanner.detectCategoryFromPath(path)).toBe('Admin - Auth - Oauth');
     });
   });
+
+  describe('@Controller options object', () => {
+    let scanner: ControllerScanner;
+    let project: Project;
+
+    beforeEach(() => {
+      scanner = new ControllerScanner('src');
+      project = new Project({ useInMemoryFileSystem: true });
+    });
+
+    const getDecorator = (decoratorText: string) => {
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, VERSION_NEUTRAL } from '@nestjs/common';
+
+        ${decoratorText}
+        export class TestController {}
+        `,
+        { overwrite: true },
+      );
+      return sourceFile.getClasses()[0].getDecorator('Controller')!;
+    };
+
+    it('should extract path and version from options object', () => {
+      const decorator = getDecorator(`@Controller({ path: 'users', version: '2' })`);
+      expect((scanner as any).extractControllerPaths(decorator)).toEqual(['users']);
+      expect((scanner as any).extractControllerVersions(decorator)).toEqual(['2']);
+    });
+
+    it('should extract multiple versions', () => {
+      const decorator = getDecorator(`@Controller({ path: 'users', version: ['1', '2'] })`);
+      expect((scanner as any).extractControllerVersions(decorator)).toEqual(['1', '2']);
+    });
+
+    it('should mark VERSION_NEUTRAL controllers', () => {
+      const decorator = getDecorator(`@Controller({ path: 'health', version: VERSION_NEUTRAL })`);
+      expect((scanner as any).extractControllerVersions(decorator)).toEqual(['VERSION_NEUTRAL']);
+    });
+
+    it('should resolve constant and enum versions', () => {
+      project.createSourceFile('versions.ts', `
+        export const V1 = '1';
+        export enum ApiVersion { V2 = '2', V3 = '3' }
+        export const STABLE_VERSIONS = [V1, ApiVersion.V2];
+      `);
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller } from '@nestjs/common';
+        import { ApiVersion, STABLE_VERSIONS, V1 } from './versions';
+
+        @Controller({ path: 'users', version: V1 })
+        export class UsersController {}
+
+        @Controller({ path: 'orders', version: [V1, ApiVersion.V3] })
+        export class OrdersController {}
+
+        @Controller({ path: 'items', version: STABLE_VERSIONS })
+        export class ItemsController {}
+        `,
+      );
+
+      const [users, orders, items] = sourceFile.getClasses().map(cls => cls.getDecorator('Controller')!);
+      expect((scanner as any).extractControllerVersions(users)).toEqual(['1']);
+      expect((scanner as any).extractControllerVersions(orders)).toEqual(['1', '3']);
+      expect((scanner as any).extractControllerVersions(items)).toEqual(['1', '2']);
+    });
+
+    it('should resolve constant paths', () => {
+      project.createSourceFile('routes.ts', `export const ROUTES = { USERS: 'users' } as const;`);
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller } from '@nestjs/common';
+        import { ROUTES } from './routes';
+
+        const PREFIX = 'admin';
+
+        @Controller(ROUTES.USERS)
+        export class UsersController {}
+
+        @Controller({ path: \`\${PREFIX}/\${ROUTES.USERS}\` })
+        export class AdminUsersController {}
+        `,
+      );
+
+      const [users, adminUsers] = sourceFile.getClasses().map(cls => cls.getDecorator('Controller')!);
+      expect((scanner as any).extractControllerPaths(users)).toEqual(['users']);
+      expect((scanner as any).extractControllerPaths(adminUsers)).toEqual(['admin/users']);
+    });
+
+    it('should warn about paths that cannot be resolved', () => {
+      const warn = jest.spyOn((scanner as any).logger, 'warn').mockImplementation(() => undefined);
+      const decorator = getDecorator(`@Controller(process.env.USERS_PATH)`);
+
+      expect((scanner as any).extractControllerPaths(decorator)).toEqual(['/']);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not resolve controller path process.env.USERS_PATH'));
+    });
+
+    it('should extract array paths and hosts', () => {
+      const aliases = getDecorator(`@Controller(['users', 'members'])`);
+      expect((scanner as any).extractControllerPaths(aliases)).toEqual(['users', 'members']);
+
+      const hostBound = getDecorator(`@Controller({ path: ['admin', 'backoffice'], host: [':account.example.com', 'admin.example.com'] })`);
+      expect((scanner as any).extractControllerPaths(hostBound)).toEqual(['admin', 'backoffice']);
+      expect((scanner as any).extractControllerHosts(hostBound)).toEqual([':account.example.com', 'admin.example.com']);
+    });
+
+    it('should warn about hosts that cannot be documented', () => {
+      const warn = jest.spyOn((scanner as any).logger, 'warn').mockImplementation(() => undefined);
+      const decorator = getDecorator(`@Controller({ path: 'admin', host: /^admin\\.example\\.com$/ })`);
+
+      expect((scanner as any).extractControllerHosts(decorator)).toEqual([]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not resolve controller host'));
+    });
+
+    it('should return no versions for string paths', () => {
+      const decorator = getDecorator(`@Controller('users')`);
+      expect((scanner as any).extractControllerVersions(decorator)).toEqual([]);
+    });
+  });
+
+  describe('class-level guards and public markers', () => {
+    let scanner: ControllerScanner;
+    let project: Project;
+
+    beforeEach(() => {
+      scanner = new ControllerScanner('src');
+      project = new Project({ useInMemoryFileSystem: true });
+    });
+
+    const buildMetadata = (decoratorsText: string) => {
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Get, UseGuards } from '@nestjs/common';
+
+        ${decoratorsText}
+        @Controller('status')
+        export class StatusController {
+          @Get()
+          getStatus() {}
+        }
+        `,
+        { overwrite: true },
+      );
+      const classDeclaration = sourceFile.getClasses()[0];
+      return (scanner as any).buildControllerMetadata(
+        classDeclaration,
+        classDeclaration.getDecorator('Controller'),
+        sourceFile,
+      );
+    };
+
+    it('should mark controllers decorated with @Public() as public', () => {
+      const metadata = buildMetadata('@Public()');
+      expect(metadata.isPublic).toBe(true);
+    });
+
+    it('should prefix controller paths with the RouterModule path of their module', () => {
+      (scanner as any).routePrefixes = new Map([['StatusController', 'admin']]);
+
+      const metadata = buildMetadata('');
+      expect(metadata.path).toBe('admin/status');
+      expect(metadata.routes[0].fullPath).toBe('/admin/status');
+    });
+
+    it('should collect class-level guards', () => {
+      const metadata = buildMetadata('@UseGuards(JwtAuthGuard, RolesGuard)');
+      expect(metadata.guards).toEqual(['JwtAuthGuard', 'RolesGuard']);
+      expect(metadata.isPublic).toBeUndefined();
+    });
+  });
+
+  describe('include and exclude globs', () => {
+    const createScanner = (options: { include?: string[]; exclude?: string[] }) => {
+      const scanner = new ControllerScanner('/app/src', options);
+      const project = new Project({ useInMemoryFileSystem: true });
+      const fileSystem = project.getFileSystem();
+
+      for (const [filePath, name] of [
+        ['/app/src/users/users.controller.ts', 'UsersController'],
+        ['/app/src/users/users.controller.spec.ts', 'TestController'],
+        ['/app/src/billing/billing.controller.ts', 'BillingController'],
+        ['/app/src/internal/debug.controller.ts', 'DebugController'],
+      ]) {
+        fileSystem.writeFileSync(filePath, `
+          import { Controller, Get } from '@nestjs/common';
+
+          @Controller('${name.toLowerCase()}')
+          export class ${name} {
+            @Get()
+            findAll() {}
+          }
+        `);
+      }
+
+      (scanner as any).project = project;
+      return { scanner, project };
+    };
+
+    it('should skip test files and excluded files', async () => {
+      const { scanner, project } = createScanner({ exclude: ['**/internal/**'] });
+
+      const controllers = await scanner.scanControllers();
+
+      expect(controllers.map(c => c.name)).toEqual(['UsersController', 'BillingController']);
+      expect(project.getSourceFile('/app/src/users/users.controller.spec.ts')).toBeUndefined();
+    });
+
+    it('should skip excluded files loaded from tsconfig.json', async () => {
+      const { scanner, project } = createScanner({});
+      project.addSourceFileAtPath('/app/src/users/users.controller.spec.ts');
+
+      const controllers = await scanner.scanControllers();
+
+      expect(controllers.map(c => c.name)).not.toContain('TestController');
+    });
+
+    it('should only document controllers in included files', async () => {
+      const { scanner } = createScanner({ include: ['src/{users,internal}/**'], exclude: ['**/debug.controller.ts'] });
+
+      const controllers = await scanner.scanControllers();
+
+      expect(controllers.map(c => c.name)).toEqual(['UsersController']);
+    });
+  });
+
+  describe('rescanFiles', () => {
+    let scanner: ControllerScanner;
+    let project: Project;
+
+    const writeController = (filePath: string, name: string, body: string) => {
+      project.getFileSystem().writeFileSync(filePath, `
+        import { Body, Controller, Post } from '@nestjs/common';
+        import { CreateUserDto } from './user.dto';
+
+        @Controller('${name.toLowerCase()}')
+        export class ${name}Controller {
+          ${body}
+        }
+      `);
+    };
+
+    beforeEach(async () => {
+      scanner = new ControllerScanner('/app/src');
+      project = new Project({ useInMemoryFileSystem: true });
+      (scanner as any).project = project;
+
+      project.getFileSystem().writeFileSync('/app/src/users/user.dto.ts', `export class CreateUserDto { name: string; }`);
+      writeController('/app/src/users/users.controller.ts', 'Users', `@Post() create(@Body() dto: CreateUserDto) {}`);
+      writeController('/app/src/health/health.controller.ts', 'Health', `@Post() check() {}`);
+
+      await scanner.scanControllers();
+    });
+
+    it('should re-extract controllers that import a changed DTO and keep the others', async () => {
+      const [users, health] = await scanner.scanControllers();
+      project.getFileSystem().writeFileSync('/app/src/users/user.dto.ts', `export class CreateUserDto { name: string; email: string; }`);
+
+      const controllers = await scanner.rescanFiles(['/app/src/users/user.dto.ts']);
+
+      expect(controllers[0]).not.toBe(users);
+      expect(controllers[0].routes[0].requestBody?.properties.map(p => p.name)).toEqual(['name', 'email']);
+      expect(controllers[1]).toBe(health);
+    });
+
+    it('should add new controllers and drop deleted ones', async () => {
+      writeController('/app/src/orders/orders.controller.ts', 'Orders', `@Post() create() {}`);
+      project.getFileSystem().deleteSync('/app/src/health/health.controller.ts');
+
+      const controllers = await scanner.rescanFiles([
+        '/app/src/orders/orders.controller.ts',
+        '/app/src/health/health.controller.ts',
+      ]);
+
+      expect(controllers.map(c => c.name)).toEqual(['UsersController', 'OrdersController']);
+    });
+  });
 });
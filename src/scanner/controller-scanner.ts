@@ -1,42 +1,215 @@
-import { Injectable } from '@nestjs/common';
-import { Project, SourceFile, ClassDeclaration, Decorator, SyntaxKind } from 'ts-morph';
+import { Injectable, Logger } from '@nestjs/common';
+import { Project, SourceFile, ClassDeclaration, Decorator, Node } from 'ts-morph';
 import * as path from 'path';
-import { ControllerMetadata } from '../interfaces';
-import { RouteScanner } from './route-scanner';
+import { ControllerMetadata, AutoDocsOptions, GlobalHeaderConfig, ModuleDocsMetadata } from '../interfaces';
+import { RouteScanner, PUBLIC_DECORATORS } from './route-scanner';
 import { ModuleScanner } from './module-scanner';
+import { MiddlewareScanner } from './middleware-scanner';
+import { ExpressionEvaluator } from './expression-evaluator';
+import { matchesGlob } from '../utils/glob';
+
+/**
+ * Test files excluded from scanning in addition to the configured exclude globs
+ */
+const DEFAULT_EXCLUDE = ['**/*.spec.ts', '**/*.e2e-spec.ts', '**/*.test.ts'];
 
 @Injectable()
 export class ControllerScanner {
+  private readonly logger = new Logger(ControllerScanner.name);
   private project: Project;
   private routeScanner: RouteScanner;
   private moduleScanner: ModuleScanner;
-
-  constructor(private readonly sourcePath: string) {
+  private middlewareScanner: MiddlewareScanner;
+  private expressionEvaluator: ExpressionEvaluator;
+  private routePrefixes: Map<string, string> = new Map();
+  private controllerGroups: Map<string, string> = new Map();
+  private moduleDocs: Map<string, ModuleDocsMetadata> = new Map();
+  private controllersByFile: Map<string, ControllerMetadata[]> = new Map();
+  private excludePatterns: string[];
+
+  constructor(
+    private readonly sourcePath: string,
+    private readonly options: Partial<AutoDocsOptions> = {},
+  ) {
     this.project = new Project({
       tsConfigFilePath: this.findTsConfigPath(),
     });
-    this.routeScanner = new RouteScanner(this.project);
+    this.routeScanner = new RouteScanner(this.project, this.options);
     this.moduleScanner = new ModuleScanner();
+    this.middlewareScanner = new MiddlewareScanner();
+    this.expressionEvaluator = new ExpressionEvaluator();
+    this.excludePatterns = [...DEFAULT_EXCLUDE, ...(this.options.exclude || [])];
   }
 
   /**
    * Scan directory recursively and find all controllers
+   * Files matching the exclude globs are skipped, and only controllers in files
+   * matching the include globs (when given) are documented
    */
   async scanControllers(): Promise<ControllerMetadata[]> {
-    const controllers: ControllerMetadata[] = [];
-
     // Add source files to project
-    this.project.addSourceFilesAtPaths(`${this.sourcePath}/**/*.ts`);
+    this.project.addSourceFilesAtPaths([
+      `${this.sourcePath}/**/*.ts`,
+      ...this.excludePatterns.map(pattern => `!${pattern}`),
+    ]);
 
     // Get all source files
     const sourceFiles = this.project.getSourceFiles();
 
+    this.scanModules(sourceFiles);
+
+    this.controllersByFile = new Map();
     for (const sourceFile of sourceFiles) {
-      const fileControllers = this.extractControllersFromFile(sourceFile);
-      controllers.push(...fileControllers);
+      this.extractDocumentedControllers(sourceFile);
     }
 
-    return controllers;
+    return this.getScannedControllers();
+  }
+
+  /**
+   * Refresh changed files from disk and re-extract only the controllers they affect
+   * A controller is affected when its file or a file it imports (e.g. a DTO) changed;
+   * changes to modules or markdown docs re-extract every controller
+   * Call after scanControllers()
+   */
+  async rescanFiles(filePaths: string[]): Promise<ControllerMetadata[]> {
+    const changedFiles: SourceFile[] = [];
+    let modulesChanged = false;
+
+    for (const filePath of filePaths.map(changedPath => path.resolve(changedPath))) {
+      // Markdown files document modules
+      if (!filePath.endsWith('.ts')) {
+        modulesChanged = true;
+        continue;
+      }
+
+      let sourceFile = this.project.getSourceFile(filePath);
+      modulesChanged = modulesChanged || (!!sourceFile && this.isModuleFile(sourceFile));
+
+      if (!this.project.getFileSystem().fileExistsSync(filePath)) {
+        if (sourceFile) {
+          // Files importing the deleted file lose its types
+          changedFiles.push(...sourceFile.getReferencingSourceFiles());
+          this.controllersByFile.delete(sourceFile.getFilePath());
+          this.project.removeSourceFile(sourceFile);
+        }
+        continue;
+      }
+
+      if (this.excludePatterns.some(pattern => matchesGlob(filePath, pattern))) continue;
+
+      if (sourceFile) {
+        await sourceFile.refreshFromFileSystem();
+      } else {
+        sourceFile = this.project.addSourceFileAtPath(filePath);
+      }
+
+      modulesChanged = modulesChanged || this.isModuleFile(sourceFile);
+      changedFiles.push(sourceFile);
+    }
+
+    const sourceFiles = this.project.getSourceFiles();
+
+    if (modulesChanged) {
+      this.scanModules(sourceFiles);
+    }
+
+    for (const sourceFile of modulesChanged ? sourceFiles : this.getAffectedFiles(changedFiles)) {
+      this.extractDocumentedControllers(sourceFile);
+    }
+
+    return this.getScannedControllers();
+  }
+
+  /**
+   * Detect request headers read by middleware applied to routes
+   * Call after scanControllers() so that source files are loaded
+   */
+  scanMiddlewareHeaders(): GlobalHeaderConfig[] {
+    return this.middlewareScanner.scanHeaders(this.project.getSourceFiles());
+  }
+
+  /**
+   * Resolve module metadata shared by every controller
+   */
+  private scanModules(sourceFiles: SourceFile[]): void {
+    // Resolve RouterModule.register() prefixes once for every controller
+    this.routePrefixes = this.moduleScanner.getControllerRoutePrefixes(sourceFiles);
+
+    // Document categories with their module's JSDoc or markdown docs
+    this.moduleDocs = this.moduleScanner.getControllerModuleDocs(sourceFiles);
+
+    // Group categories by feature module when tag groups are enabled
+    this.controllerGroups = this.options.tagGroups
+      ? this.moduleScanner.getControllerGroups(
+        sourceFiles,
+        this.options.tagGroups.rootModule || 'AppModule',
+        this.options.tagGroups.depth ?? 1,
+      )
+      : new Map();
+  }
+
+  /**
+   * Extract and remember the controllers of a file
+   * Files from tsconfig.json are loaded regardless of the exclude globs, so filter again
+   */
+  private extractDocumentedControllers(sourceFile: SourceFile): void {
+    const filePath = sourceFile.getFilePath();
+
+    if (this.isDocumentedFile(filePath)) {
+      this.controllersByFile.set(filePath, this.extractControllersFromFile(sourceFile));
+    } else {
+      this.controllersByFile.delete(filePath);
+    }
+  }
+
+  /**
+   * Get the extracted controllers in source file order
+   */
+  private getScannedControllers(): ControllerMetadata[] {
+    return this.project.getSourceFiles()
+      .flatMap(sourceFile => this.controllersByFile.get(sourceFile.getFilePath()) || []);
+  }
+
+  /**
+   * Get changed files and every file importing them (directly or through other files)
+   */
+  private getAffectedFiles(changedFiles: SourceFile[]): SourceFile[] {
+    const affected = new Set<SourceFile>(changedFiles);
+    const queue = [...changedFiles];
+
+    while (queue.length > 0) {
+      for (const referencingFile of queue.shift()!.getReferencingSourceFiles()) {
+        if (!affected.has(referencingFile)) {
+          affected.add(referencingFile);
+          queue.push(referencingFile);
+        }
+      }
+    }
+
+    return Array.from(affected);
+  }
+
+  /**
+   * Check if a file declares a NestJS module
+   */
+  private isModuleFile(sourceFile: SourceFile): boolean {
+    return sourceFile.getClasses().some(classDeclaration => !!classDeclaration.getDecorator('Module'));
+  }
+
+  /**
+   * Check if controllers of a file are documented (include/exclude globs)
+   * Examples:
+   * - src/users/users.controller.spec.ts -> false (default exclude)
+   * - src/billing/invoices.controller.ts with include ['src/users/**'] -> false
+   */
+  private isDocumentedFile(filePath: string): boolean {
+    if (this.excludePatterns.some(pattern => matchesGlob(filePath, pattern))) {
+      return false;
+    }
+
+    const include = this.options.include;
+    return !include || include.length === 0 || include.some(pattern => matchesGlob(filePath, pattern));
   }
 
   /**
@@ -83,10 +256,15 @@ export class ControllerScanner {
     sourceFile: SourceFile,
   ): ControllerMetadata | null {
     try {
-      const controllerPath = this.extractControllerPath(controllerDecorator);
       const filePath = sourceFile.getFilePath();
       const className = classDeclaration.getName() || 'UnknownController';
 
+      // Prefix paths with the RouterModule path of the controller's module
+      const routePrefix = this.routePrefixes.get(className);
+      const controllerPaths = this.extractControllerPaths(controllerDecorator)
+        .map(controllerPath => (routePrefix ? this.prefixPath(routePrefix, controllerPath) : controllerPath));
+      const controllerPath = controllerPaths[0];
+
       // Extract JSDoc comments
       const jsDocs = classDeclaration.getJsDocs();
       const description = jsDocs.length > 0
@@ -99,21 +277,36 @@ export class ControllerScanner {
       // Detect version from file path (e.g., v1, v2, v3)
       const version = this.detectVersionFromPath(filePath);
 
+      // Extract versions from @Controller({ version }) (decorator versioning)
+      const versions = this.extractControllerVersions(controllerDecorator);
+
+      // Extract hosts from @Controller({ host })
+      const hosts = this.extractControllerHosts(controllerDecorator);
+
       // Extract guards from class decorators
       const guards = this.extractGuardsFromClass(classDeclaration);
 
+      // Class-level public markers apply to every route
+      const isPublic = classDeclaration.getDecorators().some(dec => PUBLIC_DECORATORS.includes(dec.getName()));
+
       // Scan routes using RouteScanner
       const routes = this.routeScanner.scanRoutes(classDeclaration, controllerPath);
 
       return {
         name: className,
         path: controllerPath,
+        paths: controllerPaths.length > 1 ? controllerPaths : undefined,
+        hosts: hosts.length > 0 ? hosts : undefined,
         filePath,
         category,
+        group: this.controllerGroups.get(className),
         version,
+        versions: versions.length > 0 ? versions : undefined,
         description,
+        moduleDocs: this.moduleDocs.get(className),
         routes,
         guards,
+        isPublic: isPublic || undefined,
       };
     } catch (error) {
       return null;
@@ -121,31 +314,88 @@ export class ControllerScanner {
   }
 
   /**
-   * Extract controller path from @Controller() decorator
+   * Extract controller paths from @Controller() decorator
+   * Constants, enum members and template expressions are resolved to their values
+   * Examples:
+   * - @Controller('users') -> ['users']
+   * - @Controller(['users', 'members']) -> ['users', 'members']
+   * - @Controller(ROUTES.USERS) -> ['users']
+   * - @Controller({ path: `${API_PREFIX}/users` }) -> ['api/users']
    */
-  private extractControllerPath(decorator: Decorator): string {
+  private extractControllerPaths(decorator: Decorator): string[] {
     const args = decorator.getArguments();
 
     if (args.length === 0) {
-      return '/';
+      return ['/'];
     }
 
+    // Handle options object: @Controller({ path: 'users', version: '2' })
     const firstArg = args[0];
+    const pathArg = Node.isObjectLiteralExpression(firstArg)
+      ? this.expressionEvaluator.getObjectProperty(firstArg, 'path')
+      : firstArg;
 
-    // Handle string literal
-    if (firstArg.getKind() === SyntaxKind.StringLiteral) {
-      const path = firstArg.getText().replace(/['"]/g, '');
-      return path || '/';
+    if (!pathArg) {
+      return ['/'];
     }
 
-    // Handle template literal
-    if (firstArg.getKind() === SyntaxKind.TemplateExpression ||
-        firstArg.getKind() === SyntaxKind.NoSubstitutionTemplateLiteral) {
-      const path = firstArg.getText().replace(/`/g, '');
-      return path || '/';
+    const paths = this.expressionEvaluator.evaluateConstantList(pathArg);
+    if (!paths || paths.length === 0) {
+      this.logger.warn(
+        `Could not resolve controller path ${pathArg.getText()} ` +
+        `(${decorator.getSourceFile().getFilePath()}:${decorator.getStartLineNumber()}); documenting routes at '/'`,
+      );
+      return ['/'];
     }
 
-    return '/';
+    return Array.from(new Set(paths.map(path => path || '/')));
+  }
+
+  /**
+   * Prefix a controller path (e.g. 'admin' + 'users' -> 'admin/users', 'admin' + '/' -> 'admin')
+   */
+  private prefixPath(prefix: string, controllerPath: string): string {
+    return [prefix, controllerPath]
+      .map(segment => segment.replace(/^\/+|\/+$/g, ''))
+      .filter(Boolean)
+      .join('/') || '/';
+  }
+
+  /**
+   * Extract hosts from @Controller({ host }) options
+   * Host patterns that are regular expressions cannot be documented and are reported
+   * Examples:
+   * - @Controller({ host: 'admin.example.com' }) -> ['admin.example.com']
+   * - @Controller({ host: [':account.example.com', 'example.com'] }) -> [':account.example.com', 'example.com']
+   */
+  private extractControllerHosts(decorator: Decorator): string[] {
+    const hostArg = this.expressionEvaluator.getObjectProperty(decorator.getArguments()[0], 'host');
+    if (!hostArg) return [];
+
+    const hosts = this.expressionEvaluator.evaluateConstantList(hostArg);
+    if (!hosts) {
+      this.logger.warn(
+        `Could not resolve controller host ${hostArg.getText()} ` +
+        `(${decorator.getSourceFile().getFilePath()}:${decorator.getStartLineNumber()}); documenting routes without a host`,
+      );
+      return [];
+    }
+
+    return hosts;
+  }
+
+  /**
+   * Extract versions from @Controller({ version: '1' }) options
+   * Examples:
+   * - @Controller({ path: 'users', version: '2' }) -> ['2']
+   * - @Controller({ path: 'users', version: ['1', '2'] }) -> ['1', '2']
+   * - @Controller({ path: 'health', version: VERSION_NEUTRAL }) -> ['VERSION_NEUTRAL']
+   */
+  private extractControllerVersions(decorator: Decorator): string[] {
+    const options = decorator.getArguments()[0];
+    return this.expressionEvaluator.evaluateVersions(
+      this.expressionEvaluator.getObjectProperty(options, 'version'),
+    );
   }
 
   /**
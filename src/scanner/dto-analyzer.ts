@@ -1,6 +1,12 @@
-import { Type, ClassDeclaration, PropertyDeclaration } from 'ts-morph';
+import { Type, ClassDeclaration, PropertyDeclaration, Node, StringLiteral, NoSubstitutionTemplateLiteral } from 'ts-morph';
 import { DtoMetadata, PropertyMetadata, TypeMetadata } from '../interfaces';
 
+export interface ResolvedProperty {
+  declaration: PropertyDeclaration;
+  optional: boolean; // Forced optional (e.g. by PartialType)
+  type?: Type; // Instantiated type for properties inherited from generic base classes
+}
+
 export class DtoAnalyzer {
   private visitedTypes = new Set<string>();
   private maxDepth = 5;
@@ -10,7 +16,7 @@ export class DtoAnalyzer {
    */
   analyzeDto(classDeclaration: ClassDeclaration): DtoMetadata {
     const className = classDeclaration.getName() || 'UnknownDto';
-    const properties = classDeclaration.getProperties();
+    const properties = this.getDtoProperties(classDeclaration);
 
     // Extract JSDoc description
     const jsDocs = classDeclaration.getJsDocs();
@@ -25,16 +31,17 @@ export class DtoAnalyzer {
       name: className,
       properties: properties.map(prop => this.analyzeProperty(prop)),
       description,
+      filePath: classDeclaration.getSourceFile().getFilePath(),
     };
   }
 
   /**
    * Analyze a property
    */
-  private analyzeProperty(property: PropertyDeclaration): PropertyMetadata {
+  private analyzeProperty({ declaration: property, optional, type: resolvedType }: ResolvedProperty): PropertyMetadata {
     const name = property.getName();
-    const type = property.getType();
-    const required = !property.hasQuestionToken() && !property.hasInitializer();
+    const type = resolvedType || property.getType();
+    const required = !optional && !property.hasQuestionToken() && !property.hasInitializer();
 
     // Extract JSDoc description
     const jsDocs = property.getJsDocs();
@@ -69,12 +76,15 @@ export class DtoAnalyzer {
 
     // Check if already visited (circular reference)
     if (this.visitedTypes.has(typeName)) {
+      const circularClass = this.getClassDeclaration(type);
       return {
         type: typeName,
         isPrimitive: false,
         isArray: false,
         isEnum: false,
         isOptional: false,
+        className: circularClass?.getName(),
+        filePath: circularClass?.getSourceFile().getFilePath(),
       };
     }
 
@@ -151,6 +161,21 @@ export class DtoAnalyzer {
     // Handle union types
     if (baseType.isUnion()) {
       const unionTypes = baseType.getUnionTypes();
+
+      // Unions of literals ('asc' | 'desc') are documented as enums
+      const literalTypes = unionTypes.filter(t => !t.isUndefined() && !t.isNull());
+      if (literalTypes.length > 0 && literalTypes.every(t => t.isStringLiteral() || t.isNumberLiteral())) {
+        return {
+          type: literalTypes.every(t => t.isNumberLiteral()) ? 'number' : 'string',
+          isPrimitive: false,
+          isArray,
+          isEnum: true,
+          isOptional: false,
+          elementType,
+          enumValues: literalTypes.map(t => t.getLiteralValue() as string | number),
+        };
+      }
+
       return {
         type: typeName,
         isPrimitive: false,
@@ -162,31 +187,28 @@ export class DtoAnalyzer {
       };
     }
 
-    // Handle object/class types
-    if (baseType.isObject()) {
-      this.visitedTypes.add(typeName);
-
-      const symbol = baseType.getSymbol();
-      if (symbol) {
-        const declarations = symbol.getDeclarations();
-        if (declarations.length > 0) {
-          const declaration = declarations[0];
-
-          if (declaration.getKind() === 256) { // ClassDeclaration
-            const classDecl = declaration as ClassDeclaration;
-            const properties = classDecl.getProperties();
-
-            return {
-              type: baseType.getText(),
-              isPrimitive: false,
-              isArray,
-              isEnum: false,
-              isOptional: false,
-              elementType,
-              properties: properties.map(prop => this.analyzeProperty(prop)),
-            };
-          }
-        }
+    // Handle object/class types (class arrays are described by elementType)
+    if (!isArray && baseType.isObject()) {
+      const classDecl = this.getClassDeclaration(baseType);
+
+      if (classDecl) {
+        // Track the class only while its properties are analyzed, so that
+        // cycles are detected but sibling usages still get full metadata
+        this.visitedTypes.add(typeName);
+        const properties = this.getDtoProperties(classDecl).map(prop => this.analyzeProperty(prop));
+        this.visitedTypes.delete(typeName);
+
+        return {
+          type: baseType.getText(),
+          isPrimitive: false,
+          isArray,
+          isEnum: false,
+          isOptional: false,
+          elementType,
+          properties,
+          className: classDecl.getName(),
+          filePath: classDecl.getSourceFile().getFilePath(),
+        };
       }
     }
 
@@ -201,6 +223,155 @@ export class DtoAnalyzer {
     };
   }
 
+  /**
+   * Get the properties of a DTO class, including inherited ones from base
+   * classes and mapped type helpers (PartialType, PickType, OmitType, IntersectionType)
+   * Properties declared on the class override inherited ones with the same name
+   */
+  getDtoProperties(classDeclaration: ClassDeclaration, depth: number = 0): ResolvedProperty[] {
+    const own = classDeclaration.getProperties().map(declaration => ({ declaration, optional: false }));
+
+    const heritage = classDeclaration.getExtends();
+    if (!heritage || depth > this.maxDepth) {
+      return own;
+    }
+
+    const inherited = this.resolveHeritageExpression(heritage.getExpression(), depth + 1);
+
+    return this.mergeProperties(inherited, own)
+      .map(prop => this.instantiateInheritedProperty(prop, classDeclaration));
+  }
+
+  /**
+   * Resolve the type of a property inherited from a generic base class
+   * against the inheriting class (e.g. PaginatedDto<UserDto>.items: T[] -> UserDto[])
+   */
+  private instantiateInheritedProperty(prop: ResolvedProperty, classDeclaration: ClassDeclaration): ResolvedProperty {
+    const declaringClass = prop.declaration.getParent();
+
+    if (
+      !Node.isClassDeclaration(declaringClass) ||
+      declaringClass === classDeclaration ||
+      declaringClass.getTypeParameters().length === 0
+    ) {
+      return prop;
+    }
+
+    const symbol = classDeclaration.getType().getProperty(prop.declaration.getName());
+    return symbol ? { ...prop, type: symbol.getTypeAtLocation(classDeclaration) } : prop;
+  }
+
+  /**
+   * Resolve the properties produced by a base class or mapped type expression
+   * Examples:
+   * - BaseEntityDto
+   * - PartialType(CreateUserDto)
+   * - PickType(UserDto, ['email', 'name'] as const)
+   * - PartialType(OmitType(UserDto, ['id']))
+   */
+  private resolveHeritageExpression(expression: Node, depth: number): ResolvedProperty[] {
+    if (depth > this.maxDepth) {
+      return [];
+    }
+
+    if (!Node.isCallExpression(expression)) {
+      const classDecl = this.resolveClassReference(expression);
+      return classDecl ? this.getDtoProperties(classDecl, depth) : [];
+    }
+
+    // Support both PartialType(...) and namespaced calls like swagger.PartialType(...)
+    const helperName = expression.getExpression().getText().split('.').pop();
+    const args = expression.getArguments();
+    const base = args[0] ? this.resolveHeritageExpression(args[0], depth + 1) : [];
+
+    switch (helperName) {
+      case 'PartialType':
+        return base.map(prop => ({ ...prop, optional: true }));
+
+      case 'PickType': {
+        const keys = this.extractMappedKeys(args[1]);
+        return base.filter(prop => keys.includes(prop.declaration.getName()));
+      }
+
+      case 'OmitType': {
+        const keys = this.extractMappedKeys(args[1]);
+        return base.filter(prop => !keys.includes(prop.declaration.getName()));
+      }
+
+      case 'IntersectionType':
+        return args.reduce<ResolvedProperty[]>(
+          (merged, arg) => this.mergeProperties(merged, this.resolveHeritageExpression(arg, depth + 1)),
+          [],
+        );
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Extract property keys from a PickType/OmitType keys argument
+   * Handles array literals (optionally `as const`) and constants referencing them
+   */
+  private extractMappedKeys(node: Node | undefined): string[] {
+    if (!node) return [];
+
+    if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node)) {
+      return this.extractMappedKeys(node.getExpression());
+    }
+
+    if (Node.isArrayLiteralExpression(node)) {
+      return node.getElements()
+        .filter((element): element is StringLiteral | NoSubstitutionTemplateLiteral =>
+          Node.isStringLiteral(element) || Node.isNoSubstitutionTemplateLiteral(element))
+        .map(element => element.getLiteralValue());
+    }
+
+    if (Node.isIdentifier(node)) {
+      const declaration = node.getSymbol()?.getDeclarations().find(decl => Node.isVariableDeclaration(decl));
+      if (declaration && Node.isVariableDeclaration(declaration)) {
+        return this.extractMappedKeys(declaration.getInitializer());
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Resolve an expression referencing a class (following imports) to its declaration
+   */
+  private resolveClassReference(expression: Node): ClassDeclaration | undefined {
+    const symbol = expression.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const declaration = target?.getDeclarations().find(decl => Node.isClassDeclaration(decl));
+
+    return declaration as ClassDeclaration | undefined;
+  }
+
+  /**
+   * Merge property lists, letting later properties override earlier ones by name
+   */
+  private mergeProperties(base: ResolvedProperty[], overrides: ResolvedProperty[]): ResolvedProperty[] {
+    const merged = new Map<string, ResolvedProperty>();
+
+    for (const prop of [...base, ...overrides]) {
+      merged.set(prop.declaration.getName(), prop);
+    }
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Get the class declaration backing a type, if any
+   */
+  private getClassDeclaration(type: Type): ClassDeclaration | undefined {
+    const symbol = type.getSymbol();
+    if (!symbol) return undefined;
+
+    const declaration = symbol.getDeclarations().find(decl => Node.isClassDeclaration(decl));
+    return declaration as ClassDeclaration | undefined;
+  }
+
   /**
    * Detect string format from type name
    */
@@ -0,0 +1,268 @@
+import { HttpStatus } from '@nestjs/common';
+import { CatchClause, ClassDeclaration, Node, SyntaxKind } from 'ts-morph';
+import { ExceptionMetadata } from '../interfaces';
+import { ExpressionEvaluator } from './expression-evaluator';
+
+/**
+ * Built-in NestJS HTTP exceptions and their status codes
+ */
+const BUILT_IN_EXCEPTIONS: Record<string, number> = {
+  BadRequestException: HttpStatus.BAD_REQUEST,
+  UnauthorizedException: HttpStatus.UNAUTHORIZED,
+  ForbiddenException: HttpStatus.FORBIDDEN,
+  NotFoundException: HttpStatus.NOT_FOUND,
+  MethodNotAllowedException: HttpStatus.METHOD_NOT_ALLOWED,
+  NotAcceptableException: HttpStatus.NOT_ACCEPTABLE,
+  RequestTimeoutException: HttpStatus.REQUEST_TIMEOUT,
+  ConflictException: HttpStatus.CONFLICT,
+  GoneException: HttpStatus.GONE,
+  PreconditionFailedException: HttpStatus.PRECONDITION_FAILED,
+  PayloadTooLargeException: HttpStatus.PAYLOAD_TOO_LARGE,
+  UnsupportedMediaTypeException: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+  ImATeapotException: HttpStatus.I_AM_A_TEAPOT,
+  MisdirectedException: HttpStatus.MISDIRECTED,
+  UnprocessableEntityException: HttpStatus.UNPROCESSABLE_ENTITY,
+  InternalServerErrorException: HttpStatus.INTERNAL_SERVER_ERROR,
+  NotImplementedException: HttpStatus.NOT_IMPLEMENTED,
+  BadGatewayException: HttpStatus.BAD_GATEWAY,
+  ServiceUnavailableException: HttpStatus.SERVICE_UNAVAILABLE,
+  GatewayTimeoutException: HttpStatus.GATEWAY_TIMEOUT,
+  HttpVersionNotSupportedException: HttpStatus.HTTP_VERSION_NOT_SUPPORTED,
+};
+
+interface ThrownException {
+  statusCode: number;
+  message: string;
+}
+
+export class ExceptionAnalyzer {
+  private expressionEvaluator: ExpressionEvaluator;
+  private maxInheritanceDepth = 5;
+
+  constructor() {
+    this.expressionEvaluator = new ExpressionEvaluator();
+  }
+
+  /**
+   * Find the HTTP exceptions a method can throw
+   * Calls into other methods (e.g. this.usersService.findOne()) are followed
+   * up to `depth` levels deep
+   */
+  analyze(node: Node, depth: number): ExceptionMetadata[] {
+    const messages = new Map<number, Set<string>>();
+    this.collectExceptions(node, depth, messages, new Map());
+
+    return Array.from(messages.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([statusCode, descriptions]) => ({
+        statusCode,
+        description: Array.from(descriptions).join(' or '),
+      }));
+  }
+
+  /**
+   * Collect thrown exceptions from a function body and the functions it calls
+   * Visits remember the remaining depth, so a function first reached at the end
+   * of a long call chain is expanded again when reached with more depth left
+   */
+  private collectExceptions(
+    node: Node,
+    depth: number,
+    messages: Map<number, Set<string>>,
+    visited: Map<Node, number>,
+  ): void {
+    if ((visited.get(node) ?? -1) >= depth) return;
+    visited.set(node, depth);
+
+    node.forEachDescendant((descendant, traversal) => {
+      // Exceptions thrown inside a try block are handled by its catch clause,
+      // unless the catch clause rethrows the caught error
+      if (Node.isTryStatement(descendant) && descendant.getCatchClause()) {
+        const catchClause = descendant.getCatchClause()!;
+        if (this.rethrowsCaughtError(catchClause)) {
+          this.collectExceptions(descendant.getTryBlock(), depth, messages, visited);
+        }
+
+        this.collectExceptions(catchClause, depth, messages, visited);
+        const finallyBlock = descendant.getFinallyBlock();
+        if (finallyBlock) {
+          this.collectExceptions(finallyBlock, depth, messages, visited);
+        }
+        traversal.skip();
+        return;
+      }
+
+      if (Node.isThrowStatement(descendant)) {
+        const exception = this.resolveThrownException(descendant.getExpression());
+        if (exception) {
+          if (!messages.has(exception.statusCode)) {
+            messages.set(exception.statusCode, new Set());
+          }
+          messages.get(exception.statusCode)!.add(exception.message);
+        }
+        return;
+      }
+
+      if (depth > 0 && Node.isCallExpression(descendant)) {
+        const target = this.resolveCallTarget(descendant.getExpression());
+        if (target) {
+          this.collectExceptions(target, depth - 1, messages, visited);
+        }
+      }
+    });
+  }
+
+  /**
+   * Check if a catch clause rethrows its caught error
+   * Examples:
+   * - catch (error) { throw error; }
+   * - catch (e) { if (e instanceof NotFoundException) throw e; ... }
+   */
+  private rethrowsCaughtError(catchClause: CatchClause): boolean {
+    const errorName = catchClause.getVariableDeclaration()?.getName();
+    if (!errorName) return false;
+
+    return catchClause.getBlock()
+      .getDescendantsOfKind(SyntaxKind.ThrowStatement)
+      .some(throwStatement => throwStatement.getExpression()?.getText() === errorName);
+  }
+
+  /**
+   * Resolve a called expression to the body of the method or function it invokes
+   * Declarations without a body (interfaces, .d.ts files) are skipped
+   */
+  private resolveCallTarget(expression: Node): Node | undefined {
+    const symbol = expression.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+
+    for (const declaration of target?.getDeclarations() || []) {
+      if (Node.isMethodDeclaration(declaration) || Node.isFunctionDeclaration(declaration)) {
+        const body = declaration.getBody();
+        if (body) return body;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolve a thrown expression to its status code and message
+   * Examples:
+   * - new NotFoundException('User not found') -> 404, 'User not found'
+   * - new HttpException('Locked', HttpStatus.LOCKED) -> 423, 'Locked'
+   * - new UserExistsException() (extends ConflictException) -> 409, 'User exists'
+   */
+  private resolveThrownException(expression: Node | undefined): ThrownException | undefined {
+    if (!expression || !Node.isNewExpression(expression)) {
+      return undefined;
+    }
+
+    const className = expression.getExpression().getText().split('.').pop() || '';
+    const args = expression.getArguments();
+    const message = this.evaluateMessage(args[0]);
+
+    if (className === 'HttpException') {
+      const statusCode = this.expressionEvaluator.evaluateHttpStatus(args[1]);
+      return statusCode ? { statusCode, message: message || this.describeStatus(statusCode) } : undefined;
+    }
+
+    if (BUILT_IN_EXCEPTIONS[className]) {
+      return { statusCode: BUILT_IN_EXCEPTIONS[className], message: message || this.humanize(className) };
+    }
+
+    // Custom exception classes extending HttpException or a built-in exception
+    const classDecl = this.resolveClass(expression.getExpression());
+    const custom = classDecl ? this.resolveCustomException(classDecl, 0) : undefined;
+    if (!custom) return undefined;
+
+    return {
+      statusCode: custom.statusCode,
+      message: message || custom.message || this.humanize(className),
+    };
+  }
+
+  /**
+   * Resolve the status code (and message passed to super) of a custom exception class
+   */
+  private resolveCustomException(
+    classDecl: ClassDeclaration,
+    depth: number,
+  ): { statusCode: number; message?: string } | undefined {
+    const heritage = classDecl.getExtends();
+    if (!heritage || depth > this.maxInheritanceDepth) {
+      return undefined;
+    }
+
+    const baseName = heritage.getExpression().getText().split('.').pop() || '';
+    const superArgs = this.getSuperCallArguments(classDecl);
+    const message = this.evaluateMessage(superArgs[0]);
+
+    if (baseName === 'HttpException') {
+      const statusCode = this.expressionEvaluator.evaluateHttpStatus(superArgs[1]);
+      return statusCode ? { statusCode, message } : undefined;
+    }
+
+    if (BUILT_IN_EXCEPTIONS[baseName]) {
+      return { statusCode: BUILT_IN_EXCEPTIONS[baseName], message };
+    }
+
+    const baseClass = this.resolveClass(heritage.getExpression());
+    const base = baseClass ? this.resolveCustomException(baseClass, depth + 1) : undefined;
+
+    return base ? { statusCode: base.statusCode, message: message || base.message } : undefined;
+  }
+
+  /**
+   * Get the arguments of the super() call in a class constructor
+   */
+  private getSuperCallArguments(classDecl: ClassDeclaration): Node[] {
+    const constructor = classDecl.getConstructors()[0];
+    const superCall = constructor
+      ?.getDescendantsOfKind(SyntaxKind.CallExpression)
+      .find(call => call.getExpression().getKind() === SyntaxKind.SuperKeyword);
+
+    return superCall ? superCall.getArguments() : [];
+  }
+
+  /**
+   * Resolve an expression referencing a class (following imports) to its declaration
+   */
+  private resolveClass(expression: Node): ClassDeclaration | undefined {
+    const symbol = expression.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const declaration = target?.getDeclarations().find(decl => Node.isClassDeclaration(decl));
+
+    return declaration as ClassDeclaration | undefined;
+  }
+
+  /**
+   * Evaluate an exception message argument ('message' or { message: 'message' })
+   */
+  private evaluateMessage(node: Node | undefined): string | undefined {
+    return this.expressionEvaluator.evaluateString(node)
+      ?? this.expressionEvaluator.evaluateString(this.expressionEvaluator.getObjectProperty(node, 'message'));
+  }
+
+  /**
+   * Describe a status code by its HttpStatus name (e.g. 423 -> 'Locked')
+   */
+  private describeStatus(statusCode: number): string {
+    const name = HttpStatus[statusCode];
+    if (!name) return `HTTP ${statusCode}`;
+
+    const words = name.toLowerCase().split('_').join(' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  /**
+   * Turn an exception class name into a description (e.g. 'UserNotFoundException' -> 'User not found')
+   */
+  private humanize(className: string): string {
+    const words = className
+      .replace(/(Http)?Exception$/, '')
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase();
+
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+}
@@ -0,0 +1,277 @@
+import { HttpStatus, Logger } from '@nestjs/common';
+import { Node, SyntaxKind } from 'ts-morph';
+
+export class ExpressionEvaluator {
+  private readonly logger = new Logger(ExpressionEvaluator.name);
+  private maxConstantDepth = 10;
+
+  /**
+   * Evaluate an expression to a string literal value
+   */
+  evaluateString(node: Node | undefined): string | undefined {
+    if (!node) return undefined;
+
+    // Unwrap `'x' as const` and parenthesized expressions
+    if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node)) {
+      return this.evaluateString(node.getExpression());
+    }
+
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+      return node.getLiteralValue();
+    }
+
+    if (Node.isNumericLiteral(node)) {
+      return String(node.getLiteralValue());
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Evaluate an expression to a constant string, following constants, object
+   * properties and enum members (across files) through the type checker
+   * Returns undefined when any part cannot be resolved
+   * Examples:
+   * - ROUTES.USERS (const ROUTES = { USERS: 'users' }) -> 'users'
+   * - UserRoutes.BY_ID (enum member) -> ':id'
+   * - `${API_PREFIX}/users` -> 'api/users'
+   */
+  evaluateConstant(node: Node | undefined, depth = 0): string | undefined {
+    if (!node || depth > this.maxConstantDepth) return undefined;
+
+    if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node) || Node.isSatisfiesExpression(node)) {
+      return this.evaluateConstant(node.getExpression(), depth + 1);
+    }
+
+    const literal = this.evaluateString(node);
+    if (literal !== undefined) return literal;
+
+    if (Node.isTemplateExpression(node)) {
+      let text = node.getHead().getLiteralText();
+
+      for (const span of node.getTemplateSpans()) {
+        const value = this.evaluateConstant(span.getExpression(), depth + 1);
+        if (value === undefined) return undefined;
+        text += value + span.getLiteral().getLiteralText();
+      }
+
+      return text;
+    }
+
+    if (Node.isBinaryExpression(node) && node.getOperatorToken().getKind() === SyntaxKind.PlusToken) {
+      const left = this.evaluateConstant(node.getLeft(), depth + 1);
+      const right = this.evaluateConstant(node.getRight(), depth + 1);
+      return left !== undefined && right !== undefined ? left + right : undefined;
+    }
+
+    if (!Node.isIdentifier(node) && !Node.isPropertyAccessExpression(node) && !Node.isElementAccessExpression(node)) {
+      return undefined;
+    }
+
+    // Literal types (const declarations, `as const` objects, enum members)
+    const type = node.getType();
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return String(type.getLiteralValue());
+    }
+
+    // Mutable object properties are typed as string, so follow their initializers
+    const symbol = node.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+
+    for (const declaration of target?.getDeclarations() || []) {
+      if (Node.isEnumMember(declaration)) {
+        const value = declaration.getValue();
+        if (value !== undefined) return String(value);
+      }
+
+      if (Node.isVariableDeclaration(declaration) || Node.isPropertyAssignment(declaration)) {
+        const value = this.evaluateConstant(declaration.getInitializer(), depth + 1);
+        if (value !== undefined) return value;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Evaluate a constant string or array of constant strings
+   * Returns undefined when any element cannot be resolved
+   * Examples:
+   * - 'users' -> ['users']
+   * - ['users', ROUTES.MEMBERS] -> ['users', 'members']
+   * - USER_PATHS (const USER_PATHS = ['users', 'members']) -> ['users', 'members']
+   */
+  evaluateConstantList(node: Node | undefined, depth = 0): string[] | undefined {
+    if (!node || depth > this.maxConstantDepth) return undefined;
+
+    if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node) || Node.isSatisfiesExpression(node)) {
+      return this.evaluateConstantList(node.getExpression(), depth + 1);
+    }
+
+    if (Node.isArrayLiteralExpression(node)) {
+      const values = node.getElements().map(element => this.evaluateConstant(element));
+      return values.every((value): value is string => value !== undefined) ? values : undefined;
+    }
+
+    const value = this.evaluateConstant(node);
+    if (value !== undefined) return [value];
+
+    // Array constants declared elsewhere
+    const symbol = node.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const declaration = target?.getDeclarations()
+      .find(decl => Node.isVariableDeclaration(decl) || Node.isPropertyAssignment(decl));
+
+    if (declaration && (Node.isVariableDeclaration(declaration) || Node.isPropertyAssignment(declaration))) {
+      return this.evaluateConstantList(declaration.getInitializer(), depth + 1);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Evaluate an HTTP status code
+   * Examples:
+   * - 204 -> 204
+   * - HttpStatus.NO_CONTENT -> 204
+   */
+  evaluateHttpStatus(node: Node | undefined): number | undefined {
+    if (!node) return undefined;
+
+    if (Node.isNumericLiteral(node)) {
+      return node.getLiteralValue();
+    }
+
+    if (Node.isPropertyAccessExpression(node) && node.getExpression().getText() === 'HttpStatus') {
+      const statusCode = (HttpStatus as unknown as Record<string, number>)[node.getName()];
+      return typeof statusCode === 'number' ? statusCode : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Evaluate decorator arguments to a flat list of strings
+   * Constants and enum members are resolved; values that cannot be evaluated
+   * keep their source text (with a warning)
+   * Examples:
+   * - ('admin', 'editor') -> ['admin', 'editor']
+   * - (['admin', 'editor']) -> ['admin', 'editor']
+   * - (Role.Admin) (enum Role { Admin = 'admin' }) -> ['admin']
+   */
+  evaluateStringList(nodes: Node[]): string[] {
+    return nodes.flatMap(node => {
+      if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node)) {
+        return this.evaluateStringList([node.getExpression()]);
+      }
+
+      if (Node.isArrayLiteralExpression(node)) {
+        return this.evaluateStringList(node.getElements());
+      }
+
+      const values = this.evaluateConstantList(node);
+      if (values) return values;
+
+      this.logger.warn(`Could not resolve ${node.getText()}, using its source text`);
+      return [node.getText()];
+    });
+  }
+
+  /**
+   * Evaluate a NestJS version value, following constants and enum members
+   * Examples:
+   * - '1' -> ['1']
+   * - ['1', '2'] -> ['1', '2']
+   * - API_V2 (const API_V2 = '2') or ApiVersion.V2 (enum member) -> ['2']
+   * - SUPPORTED_VERSIONS (const SUPPORTED_VERSIONS = ['1', '2']) -> ['1', '2']
+   * - VERSION_NEUTRAL -> ['VERSION_NEUTRAL']
+   */
+  evaluateVersions(node: Node | undefined, depth = 0): string[] {
+    if (!node || depth > this.maxConstantDepth) return [];
+
+    if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node) || Node.isSatisfiesExpression(node)) {
+      return this.evaluateVersions(node.getExpression(), depth + 1);
+    }
+
+    if (Node.isArrayLiteralExpression(node)) {
+      return node.getElements().flatMap(element => this.evaluateVersions(element, depth + 1));
+    }
+
+    // VERSION_NEUTRAL is a symbol, so match it by name (also handles common.VERSION_NEUTRAL)
+    if (/(^|\.)VERSION_NEUTRAL$/.test(node.getText())) {
+      return ['VERSION_NEUTRAL'];
+    }
+
+    const version = this.evaluateConstant(node);
+    if (version !== undefined) return [version];
+
+    // Constants holding a version array or VERSION_NEUTRAL
+    const symbol = Node.isIdentifier(node) || Node.isPropertyAccessExpression(node) ? node.getSymbol() : undefined;
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const declaration = target?.getDeclarations()
+      .find(decl => Node.isVariableDeclaration(decl) || Node.isPropertyAssignment(decl));
+
+    if (declaration && (Node.isVariableDeclaration(declaration) || Node.isPropertyAssignment(declaration))) {
+      return this.evaluateVersions(declaration.getInitializer(), depth + 1);
+    }
+
+    return [];
+  }
+
+  /**
+   * Evaluate a literal value (string, number, boolean or null)
+   */
+  evaluateLiteral(node: Node | undefined): string | number | boolean | null | undefined {
+    if (!node) return undefined;
+
+    if (Node.isAsExpression(node) || Node.isParenthesizedExpression(node)) {
+      return this.evaluateLiteral(node.getExpression());
+    }
+
+    if (Node.isNumericLiteral(node)) return node.getLiteralValue();
+    if (Node.isTrueLiteral(node)) return true;
+    if (Node.isFalseLiteral(node)) return false;
+    if (Node.isNullLiteral(node)) return null;
+
+    if (Node.isPrefixUnaryExpression(node) && node.getOperatorToken() === SyntaxKind.MinusToken) {
+      const value = this.evaluateLiteral(node.getOperand());
+      return typeof value === 'number' ? -value : undefined;
+    }
+
+    return this.evaluateString(node);
+  }
+
+  /**
+   * Evaluate a reference to an enum (following imports) to its member values
+   * Example: OrderStatus -> ['pending', 'shipped']
+   */
+  evaluateEnumValues(node: Node | undefined): (string | number)[] {
+    if (!node) return [];
+
+    const symbol = node.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const enumDecl = target?.getDeclarations().find(decl => Node.isEnumDeclaration(decl));
+
+    if (!enumDecl || !Node.isEnumDeclaration(enumDecl)) {
+      return [];
+    }
+
+    return enumDecl.getMembers()
+      .map(member => member.getValue())
+      .filter((value): value is string | number => value !== undefined);
+  }
+
+  /**
+   * Get the initializer of a property in an object literal (e.g. `path` in { path: 'users' })
+   */
+  getObjectProperty(node: Node | undefined, propertyName: string): Node | undefined {
+    if (!node || !Node.isObjectLiteralExpression(node)) return undefined;
+
+    const property = node.getProperty(propertyName);
+    if (property && Node.isPropertyAssignment(property)) {
+      return property.getInitializer();
+    }
+
+    return undefined;
+  }
+}
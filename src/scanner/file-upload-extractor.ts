@@ -0,0 +1,207 @@
+import { MethodDeclaration, Node } from 'ts-morph';
+import { FileUploadMetadata } from '../interfaces';
+import { ExpressionEvaluator } from './expression-evaluator';
+
+/**
+ * Interceptors from @nestjs/platform-express that parse multipart/form-data uploads
+ */
+const FILE_INTERCEPTORS = ['FileInterceptor', 'FilesInterceptor', 'FileFieldsInterceptor', 'AnyFilesInterceptor'];
+
+export class FileUploadExtractor {
+  private expressionEvaluator: ExpressionEvaluator;
+
+  constructor() {
+    this.expressionEvaluator = new ExpressionEvaluator();
+  }
+
+  /**
+   * Extract uploaded files from the file interceptors applied to a method
+   * Examples:
+   * - @UseInterceptors(FileInterceptor('avatar')) -> avatar (single file)
+   * - @UseInterceptors(FilesInterceptor('photos', 10)) -> photos (up to 10 files)
+   * - @UseInterceptors(FileFieldsInterceptor([{ name: 'avatar', maxCount: 1 }])) -> avatar (single file)
+   * - @UseInterceptors(AnyFilesInterceptor()) -> files in any field
+   */
+  extractFileUploads(method: MethodDeclaration): FileUploadMetadata[] {
+    const uploads: FileUploadMetadata[] = [];
+
+    for (const decorator of method.getDecorators()) {
+      if (decorator.getName() !== 'UseInterceptors') continue;
+
+      for (const arg of decorator.getArguments()) {
+        if (!Node.isCallExpression(arg)) continue;
+
+        const interceptor = arg.getExpression().getText().split('.').pop() || '';
+        if (!FILE_INTERCEPTORS.includes(interceptor)) continue;
+
+        uploads.push(...this.extractInterceptorFields(interceptor, arg.getArguments()));
+      }
+    }
+
+    if (uploads.length === 0) {
+      return uploads;
+    }
+
+    // Validation pipes of @UploadedFile() / @UploadedFiles() apply to the intercepted files
+    for (const param of method.getParameters()) {
+      const decorator = param.getDecorators().find(dec => ['UploadedFile', 'UploadedFiles'].includes(dec.getName()));
+      if (!decorator) continue;
+
+      const pipe = decorator.getArguments().find(arg => this.isParseFilePipe(arg));
+      if (!pipe) continue;
+
+      const constraints = this.extractFileConstraints(pipe);
+      const required = this.isFileRequired(pipe);
+
+      for (const upload of uploads) {
+        upload.required = required;
+        upload.constraints = constraints.length > 0 ? constraints : undefined;
+      }
+    }
+
+    return uploads;
+  }
+
+  /**
+   * Extract the form fields handled by a file interceptor
+   */
+  private extractInterceptorFields(interceptor: string, args: Node[]): FileUploadMetadata[] {
+    switch (interceptor) {
+      case 'FileInterceptor': {
+        const fieldName = this.expressionEvaluator.evaluateString(args[0]);
+        return fieldName ? [{ fieldName, isArray: false, required: false }] : [];
+      }
+
+      case 'FilesInterceptor': {
+        const fieldName = this.expressionEvaluator.evaluateString(args[0]);
+        const maxCount = this.expressionEvaluator.evaluateLiteral(args[1]);
+        return fieldName
+          ? [{ fieldName, isArray: true, maxCount: typeof maxCount === 'number' ? maxCount : undefined, required: false }]
+          : [];
+      }
+
+      case 'FileFieldsInterceptor': {
+        const fields = args[0];
+        if (!fields || !Node.isArrayLiteralExpression(fields)) return [];
+
+        return fields.getElements().flatMap(field => {
+          const fieldName = this.expressionEvaluator.evaluateString(this.expressionEvaluator.getObjectProperty(field, 'name'));
+          const maxCount = this.expressionEvaluator.evaluateLiteral(this.expressionEvaluator.getObjectProperty(field, 'maxCount'));
+          if (!fieldName) return [];
+
+          return [{
+            fieldName,
+            isArray: maxCount !== 1,
+            maxCount: typeof maxCount === 'number' ? maxCount : undefined,
+            required: false,
+          }];
+        });
+      }
+
+      case 'AnyFilesInterceptor':
+        return [{ isArray: true, required: false }];
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Check if an expression creates a file validation pipe
+   * Examples:
+   * - new ParseFilePipe({ validators: [...] })
+   * - new ParseFilePipeBuilder().addMaxSizeValidator({ maxSize: 1000 }).build()
+   */
+  private isParseFilePipe(node: Node): boolean {
+    return /^new\s+ParseFilePipe(Builder)?\b/.test(node.getText());
+  }
+
+  /**
+   * Describe the validators of a ParseFilePipe
+   * Examples:
+   * - new MaxFileSizeValidator({ maxSize: 2 * 1024 * 1024 }) -> 'Max size: 2 MB'
+   * - new FileTypeValidator({ fileType: 'image/jpeg' }) -> 'Allowed types: image/jpeg'
+   * - .addFileTypeValidator({ fileType: /(jpg|png)$/ }) -> 'Allowed types: /(jpg|png)$/'
+   */
+  private extractFileConstraints(pipe: Node): string[] {
+    const constraints: string[] = [];
+
+    pipe.forEachDescendant(node => {
+      let validatorName: string | undefined;
+      let options: Node | undefined;
+
+      if (Node.isNewExpression(node)) {
+        validatorName = node.getExpression().getText();
+        options = node.getArguments()[0];
+      } else if (Node.isCallExpression(node)) {
+        const callee = node.getExpression();
+        validatorName = Node.isPropertyAccessExpression(callee) ? callee.getName() : undefined;
+        options = node.getArguments()[0];
+      }
+
+      if (validatorName === 'MaxFileSizeValidator' || validatorName === 'addMaxSizeValidator') {
+        const maxSize = this.evaluateSize(this.expressionEvaluator.getObjectProperty(options, 'maxSize'));
+        if (maxSize !== undefined) {
+          constraints.push(`Max size: ${this.formatSize(maxSize)}`);
+        }
+      }
+
+      if (validatorName === 'FileTypeValidator' || validatorName === 'addFileTypeValidator') {
+        const fileType = this.expressionEvaluator.getObjectProperty(options, 'fileType');
+        if (fileType) {
+          constraints.push(`Allowed types: ${this.expressionEvaluator.evaluateString(fileType) ?? fileType.getText()}`);
+        }
+      }
+    });
+
+    return constraints;
+  }
+
+  /**
+   * Check if a ParseFilePipe requires the file (fileIsRequired defaults to true)
+   */
+  private isFileRequired(pipe: Node): boolean {
+    const option = pipe.getDescendants().find(node => Node.isPropertyAssignment(node) && node.getName() === 'fileIsRequired');
+    const fileIsRequired = option && Node.isPropertyAssignment(option)
+      ? this.expressionEvaluator.evaluateLiteral(option.getInitializer())
+      : undefined;
+
+    return fileIsRequired !== false;
+  }
+
+  /**
+   * Evaluate a size in bytes, including products like 5 * 1024 * 1024
+   */
+  private evaluateSize(node: Node | undefined): number | undefined {
+    if (!node) return undefined;
+
+    if (Node.isParenthesizedExpression(node)) {
+      return this.evaluateSize(node.getExpression());
+    }
+
+    if (Node.isBinaryExpression(node) && node.getOperatorToken().getText() === '*') {
+      const left = this.evaluateSize(node.getLeft());
+      const right = this.evaluateSize(node.getRight());
+      return left !== undefined && right !== undefined ? left * right : undefined;
+    }
+
+    const value = this.expressionEvaluator.evaluateLiteral(node);
+    return typeof value === 'number' ? value : undefined;
+  }
+
+  /**
+   * Format a size in bytes (e.g. 2097152 -> '2 MB', 1500 -> '1500 bytes')
+   */
+  private formatSize(bytes: number): string {
+    const units = ['GB', 'MB', 'KB'];
+
+    for (const [index, unit] of units.entries()) {
+      const size = 1024 ** (units.length - index);
+      if (bytes >= size && bytes % size === 0) {
+        return `${bytes / size} ${unit}`;
+      }
+    }
+
+    return `${bytes} bytes`;
+  }
+}
@@ -0,0 +1,89 @@
+import { MiddlewareScanner } from './middleware-scanner';
+import { Project } from 'ts-morph';
+
+describe('MiddlewareScanner', () => {
+  let scanner: MiddlewareScanner;
+  let project: Project;
+
+  beforeEach(() => {
+    scanner = new MiddlewareScanner();
+    project = new Project({ useInMemoryFileSystem: true });
+  });
+
+  describe('scanHeaders', () => {
+    beforeEach(() => {
+      project.createSourceFile(
+        'tenant.middleware.ts',
+        `
+        import { Injectable, NestMiddleware, BadRequestException } from '@nestjs/common';
+
+        @Injectable()
+        export class TenantMiddleware implements NestMiddleware {
+          use(req: any, res: any, next: () => void) {
+            const tenantId = req.headers['x-tenant-id'];
+            if (!tenantId) {
+              throw new BadRequestException('Missing tenant');
+            }
+            next();
+          }
+        }
+
+        @Injectable()
+        export class TraceMiddleware implements NestMiddleware {
+          constructor(private readonly cache: Map<string, string>) {}
+
+          use(request: any, res: any, next: () => void) {
+            request.traceId = request.header('X-Request-Id') || this.cache.get('fallback');
+            next();
+          }
+        }
+        `,
+      );
+    });
+
+    it('should detect headers read by middleware applied to routes', () => {
+      project.createSourceFile(
+        'app.module.ts',
+        `
+        import { Module, MiddlewareConsumer, NestModule, RequestMethod } from '@nestjs/common';
+        import { TenantMiddleware, TraceMiddleware } from './tenant.middleware';
+
+        @Module({})
+        export class AppModule implements NestModule {
+          configure(consumer: MiddlewareConsumer) {
+            consumer
+              .apply(TenantMiddleware)
+              .exclude({ path: 'health', method: RequestMethod.GET })
+              .forRoutes('*');
+
+            consumer.apply(TraceMiddleware).forRoutes('orders/*', UsersController);
+          }
+        }
+        `,
+      );
+
+      const headers = scanner.scanHeaders(project.getSourceFiles());
+
+      expect(headers).toEqual([
+        {
+          name: 'x-tenant-id',
+          required: true,
+          description: 'Read by TenantMiddleware',
+          include: undefined,
+          exclude: ['health'],
+        },
+        {
+          name: 'x-request-id',
+          required: false,
+          description: 'Read by TraceMiddleware',
+          include: ['orders/*', 'UsersController'],
+          exclude: undefined,
+        },
+      ]);
+    });
+
+    it('should ignore middleware that is never applied', () => {
+      expect(scanner.scanHeaders(project.getSourceFiles())).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { SourceFile, ClassDeclaration, CallExpression, Node, SyntaxKind } from 'ts-morph';
+import { GlobalHeaderConfig } from '../interfaces';
+import { ExpressionEvaluator } from './expression-evaluator';
+
+export class MiddlewareScanner {
+  private expressionEvaluator: ExpressionEvaluator;
+
+  constructor() {
+    this.expressionEvaluator = new ExpressionEvaluator();
+  }
+
+  /**
+   * Detect request headers read by middleware applied in module configure() methods
+   * Example:
+   *   consumer.apply(TenantMiddleware).exclude('health').forRoutes('*')
+   *   // TenantMiddleware reads req.headers['x-tenant-id']
+   *   -> { name: 'x-tenant-id', exclude: ['health'] } (every route but health)
+   */
+  scanHeaders(sourceFiles: SourceFile[]): GlobalHeaderConfig[] {
+    const headers: GlobalHeaderConfig[] = [];
+
+    for (const sourceFile of sourceFiles) {
+      for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        if (this.getCalledMethodName(call) !== 'forRoutes') continue;
+
+        const chain = this.getConsumerChain(call);
+        const applyCall = chain.find(link => this.getCalledMethodName(link) === 'apply');
+        if (!applyCall) continue;
+
+        const include = this.extractRoutePatterns(call.getArguments());
+        const exclude = chain
+          .filter(link => this.getCalledMethodName(link) === 'exclude')
+          .flatMap(link => this.extractRoutePatterns(link.getArguments()));
+
+        for (const middlewareArg of applyCall.getArguments()) {
+          const middleware = this.resolveClass(middlewareArg);
+          if (!middleware) continue;
+
+          for (const header of this.extractMiddlewareHeaders(middleware)) {
+            headers.push({
+              ...header,
+              include: include.includes('*') ? undefined : include,
+              exclude: exclude.length > 0 ? exclude : undefined,
+            });
+          }
+        }
+      }
+    }
+
+    return headers;
+  }
+
+  /**
+   * Get the calls of a consumer chain, e.g. apply(...).exclude(...).forRoutes(...)
+   */
+  private getConsumerChain(call: CallExpression): CallExpression[] {
+    const chain: CallExpression[] = [];
+    let current: Node | undefined = call;
+
+    while (current && Node.isCallExpression(current)) {
+      chain.push(current);
+      const callee = current.getExpression();
+      current = Node.isPropertyAccessExpression(callee) ? callee.getExpression() : undefined;
+    }
+
+    return chain;
+  }
+
+  /**
+   * Get the method name of a call like consumer.apply(...) -> 'apply'
+   */
+  private getCalledMethodName(call: CallExpression): string | undefined {
+    const callee = call.getExpression();
+    return Node.isPropertyAccessExpression(callee) ? callee.getName() : undefined;
+  }
+
+  /**
+   * Extract route patterns from forRoutes()/exclude() arguments
+   * Examples:
+   * - 'users/*' -> 'users/*'
+   * - { path: 'users', method: RequestMethod.GET } -> 'users'
+   * - UsersController -> 'UsersController'
+   */
+  private extractRoutePatterns(args: Node[]): string[] {
+    return args.flatMap(arg => {
+      const path = this.expressionEvaluator.evaluateString(arg)
+        ?? this.expressionEvaluator.evaluateString(this.expressionEvaluator.getObjectProperty(arg, 'path'));
+
+      if (path !== undefined) {
+        return [path.replace(/^\/+/, '') || '*'];
+      }
+
+      return Node.isIdentifier(arg) ? [arg.getText()] : [];
+    });
+  }
+
+  /**
+   * Extract headers read by a middleware's use() method
+   * Headers are required when the middleware can reject the request (throws)
+   * Examples:
+   * - req.headers['x-tenant-id']
+   * - req.header('x-tenant-id') / req.get('x-tenant-id')
+   */
+  private extractMiddlewareHeaders(middleware: ClassDeclaration): GlobalHeaderConfig[] {
+    const useMethod = middleware.getMethod('use');
+    const requestName = useMethod?.getParameters()[0]?.getName();
+    if (!useMethod || !requestName) return [];
+
+    const isRequest = (node: Node) => node.getText() === requestName;
+    const names = new Set<string>();
+
+    for (const node of useMethod.getDescendants()) {
+      // req.headers['x-tenant-id']
+      if (Node.isElementAccessExpression(node)) {
+        const target = node.getExpression();
+        if (Node.isPropertyAccessExpression(target) && target.getName() === 'headers' && isRequest(target.getExpression())) {
+          const name = this.expressionEvaluator.evaluateString(node.getArgumentExpression());
+          if (name) names.add(name.toLowerCase());
+        }
+      }
+
+      // req.header('x-tenant-id') / req.get('x-tenant-id')
+      const callee = Node.isCallExpression(node) ? node.getExpression() : undefined;
+      if (
+        Node.isCallExpression(node) &&
+        Node.isPropertyAccessExpression(callee) &&
+        ['header', 'get'].includes(callee.getName()) &&
+        isRequest(callee.getExpression())
+      ) {
+        const name = this.expressionEvaluator.evaluateString(node.getArguments()[0]);
+        if (name) names.add(name.toLowerCase());
+      }
+    }
+
+    const required = useMethod.getDescendantsOfKind(SyntaxKind.ThrowStatement).length > 0;
+
+    return Array.from(names).map(name => ({
+      name,
+      required,
+      description: `Read by ${middleware.getName()}`,
+    }));
+  }
+
+  /**
+   * Resolve an expression referencing a class (following imports) to its declaration
+   */
+  private resolveClass(expression: Node): ClassDeclaration | undefined {
+    const symbol = expression.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const declaration = target?.getDeclarations().find(decl => Node.isClassDeclaration(decl));
+
+    return declaration as ClassDeclaration | undefined;
+  }
+}
@@ -175,4 +175,280 @@ describe('ModuleScanner', () => {
       expect(result).toBe('Admin');
     });
   });
+
+  describe('buildModuleTree', () => {
+    it('should resolve spreads, array constants and dynamic module calls', () => {
+      const controllers = project.createSourceFile(
+        'admin.controllers.ts',
+        `
+        import { AdminController } from './admin.controller';
+        import { AuditController } from './audit.controller';
+
+        export const adminControllers = [AdminController, AuditController];
+        `,
+        { overwrite: true },
+      );
+
+      const sourceFile = project.createSourceFile(
+        'admin.module.ts',
+        `
+        import { Module, forwardRef } from '@nestjs/common';
+        import { TypeOrmModule } from '@nestjs/typeorm';
+        import { ConfigModule } from '@nestjs/config';
+        import { adminControllers } from './admin.controllers';
+
+        const sharedImports = [ConfigModule.forRootAsync({ useFactory: () => ({ ttl: [5, 10] }) })];
+        const debug = process.env.DEBUG === 'true';
+
+        @Module({
+          imports: [
+            TypeOrmModule.forFeature([User, Role]),
+            ...sharedImports,
+            forwardRef(() => UsersModule),
+            JwtModule.register({ secret: 'secret' }),
+          ],
+          controllers: [...adminControllers, SettingsController, ...(debug ? [DebugController] : [])],
+        })
+        export class AdminModule {}
+        `,
+        { overwrite: true },
+      );
+
+      const modules = scanner.buildModuleTree([controllers, sourceFile]);
+
+      expect(modules.get('AdminModule')).toMatchObject({
+        controllers: ['AdminController', 'AuditController', 'SettingsController', 'DebugController'],
+        imports: ['TypeOrmModule', 'ConfigModule', 'UsersModule', 'JwtModule'],
+      });
+    });
+
+    it('should include controllers added by static forRoot() methods', () => {
+      const sourceFile = project.createSourceFile(
+        'health.module.ts',
+        `
+        import { Module, DynamicModule } from '@nestjs/common';
+
+        const metadata = { controllers: [StatusController] };
+
+        @Module(metadata)
+        export class HealthModule {
+          static forRoot(options: { path: string }): DynamicModule {
+            const controllers = [HealthController];
+
+            return {
+              module: HealthModule,
+              imports: [TerminusModule],
+              controllers,
+            };
+          }
+        }
+        `,
+        { overwrite: true },
+      );
+
+      const modules = scanner.buildModuleTree([sourceFile]);
+
+      expect(modules.get('HealthModule')).toMatchObject({
+        controllers: ['StatusController', 'HealthController'],
+        imports: ['TerminusModule'],
+      });
+      expect(scanner.findModuleForController('HealthController', [sourceFile])).toBe('Health');
+    });
+  });
+
+  describe('getControllerModuleDocs', () => {
+    let memoryProject: Project;
+
+    beforeEach(() => {
+      memoryProject = new Project({ useInMemoryFileSystem: true });
+    });
+
+    it('should use the module JSDoc and map @see to external docs', () => {
+      const sourceFile = memoryProject.createSourceFile(
+        '/src/billing/billing.module.ts',
+        `
+        import { Module } from '@nestjs/common';
+
+        /**
+         * Invoices, payments and **refunds**.
+         *
+         * @see https://docs.example.com/billing Billing guide
+         */
+        @Module({ controllers: [InvoicesController, PaymentsController] })
+        export class BillingModule {}
+        `,
+      );
+      memoryProject.getFileSystem().writeFileSync('/src/billing/README.md', '# Billing\n\nIgnored when JSDoc exists');
+
+      const docs = scanner.getControllerModuleDocs([sourceFile]);
+
+      expect(docs.get('InvoicesController')).toEqual({
+        description: 'Invoices, payments and **refunds**.',
+        externalDocs: { url: 'https://docs.example.com/billing', description: 'Billing guide' },
+      });
+      expect(docs.get('PaymentsController')).toBe(docs.get('InvoicesController'));
+    });
+
+    it('should fall back to <module>.docs.md, then README.md next to the module', () => {
+      const fileSystem = memoryProject.getFileSystem();
+      fileSystem.writeFileSync('/src/identity/identity.docs.md', '# Identity\n\nUsers, sessions and *SSO*.\n');
+      fileSystem.writeFileSync('/src/identity/README.md', 'Not used');
+      fileSystem.writeFileSync('/src/search/README.md', 'Full-text search over **everything**.');
+
+      const identity = memoryProject.createSourceFile(
+        '/src/identity/identity.module.ts',
+        `@Module({ controllers: [UsersController] }) export class IdentityModule {}`,
+      );
+      const search = memoryProject.createSourceFile(
+        '/src/search/search.module.ts',
+        `@Module({ controllers: [SearchController] }) export class SearchModule {}`,
+      );
+      const health = memoryProject.createSourceFile(
+        '/src/health/health.module.ts',
+        `@Module({ controllers: [HealthController] }) export class HealthModule {}`,
+      );
+
+      const docs = scanner.getControllerModuleDocs([identity, search, health]);
+
+      expect(docs.get('UsersController')).toEqual({ description: 'Users, sessions and *SSO*.', externalDocs: undefined });
+      expect(docs.get('SearchController')?.description).toBe('Full-text search over **everything**.');
+      expect(docs.has('HealthController')).toBe(false);
+    });
+  });
+
+  describe('getControllerGroups', () => {
+    const createModules = () => project.createSourceFile(
+      'app.module.ts',
+      `
+      import { Module } from '@nestjs/common';
+
+      @Module({ controllers: [InvoicesController] })
+      export class InvoicesModule {}
+
+      @Module({ imports: [InvoicesModule], controllers: [BillingController] })
+      export class BillingModule {}
+
+      @Module({ controllers: [UsersController] })
+      export class IdentityModule {}
+
+      @Module({ imports: [BillingModule, IdentityModule], controllers: [AppController] })
+      export class AppModule {}
+
+      @Module({ controllers: [LegacyController] })
+      export class LegacyModule {}
+      `,
+      { overwrite: true },
+    );
+
+    it('should group controllers by the feature modules the root module imports', () => {
+      const groups = scanner.getControllerGroups([createModules()], 'AppModule', 1);
+
+      expect(Object.fromEntries(groups)).toEqual({
+        AppController: 'App',
+        BillingController: 'Billing',
+        InvoicesController: 'Billing',
+        UsersController: 'Identity',
+      });
+    });
+
+    it('should honour the grouping depth and root module', () => {
+      const sourceFile = createModules();
+
+      expect(scanner.getControllerGroups([sourceFile], 'AppModule', 2).get('InvoicesController')).toBe('Invoices');
+      expect(scanner.getControllerGroups([sourceFile], 'AppModule', 2).get('BillingController')).toBe('Billing');
+      expect(Object.fromEntries(scanner.getControllerGroups([sourceFile], 'BillingModule', 0))).toEqual({
+        BillingController: 'Billing',
+        InvoicesController: 'Billing',
+      });
+      expect(scanner.getControllerGroups([sourceFile], 'MissingModule', 1).size).toBe(0);
+    });
+  });
+
+  describe('getControllerRoutePrefixes', () => {
+    it('should prefix controllers of modules registered with RouterModule', () => {
+      const modules = project.createSourceFile(
+        'admin.module.ts',
+        `
+        import { Module } from '@nestjs/common';
+
+        @Module({ controllers: [AuditController] })
+        export class AuditModule {}
+
+        @Module({ controllers: [UsersController] })
+        export class UsersModule {}
+
+        @Module({ controllers: [ReportsController] })
+        export class ReportsModule {}
+
+        @Module({
+          imports: [UsersModule, AuditModule, ReportsModule],
+          controllers: [AdminController],
+        })
+        export class AdminModule {}
+
+        @Module({ controllers: [HealthController] })
+        export class HealthModule {}
+        `,
+        { overwrite: true },
+      );
+
+      const routes = project.createSourceFile(
+        'app.routes.ts',
+        `
+        import { Routes } from '@nestjs/core';
+
+        export const routes: Routes = [
+          {
+            path: '/admin',
+            module: AdminModule,
+            children: [
+              { path: 'users', module: UsersModule },
+              ReportsModule,
+            ],
+          },
+        ];
+        `,
+        { overwrite: true },
+      );
+
+      const app = project.createSourceFile(
+        'app.module.ts',
+        `
+        import { Module } from '@nestjs/common';
+        import { RouterModule } from '@nestjs/core';
+        import { routes } from './app.routes';
+
+        @Module({
+          imports: [AdminModule, HealthModule, RouterModule.register(routes)],
+        })
+        export class AppModule {}
+        `,
+        { overwrite: true },
+      );
+
+      const prefixes = scanner.getControllerRoutePrefixes([modules, routes, app]);
+
+      expect(prefixes.get('AdminController')).toBe('admin');
+      expect(prefixes.get('UsersController')).toBe('admin/users');
+      expect(prefixes.get('ReportsController')).toBe('admin');
+      // Imported by AdminModule but not part of the route tree: NestJS serves it unprefixed
+      expect(prefixes.has('AuditController')).toBe(false);
+      expect(prefixes.has('HealthController')).toBe(false);
+    });
+
+    it('should return no prefixes without RouterModule', () => {
+      const sourceFile = project.createSourceFile(
+        'admin.module.ts',
+        `
+        import { Module } from '@nestjs/common';
+
+        @Module({ controllers: [AdminController] })
+        export class AdminModule {}
+        `,
+        { overwrite: true },
+      );
+
+      expect(scanner.getControllerRoutePrefixes([sourceFile]).size).toBe(0);
+    });
+  });
 });
@@ -1,4 +1,7 @@
-import { SourceFile, ClassDeclaration, Decorator } from 'ts-morph';
+import { SourceFile, ClassDeclaration, Decorator, Node, SyntaxKind } from 'ts-morph';
+import * as path from 'path';
+import { ModuleDocsMetadata } from '../interfaces';
+import { ExpressionEvaluator } from './expression-evaluator';
 
 export interface ModuleInfo {
   name: string;
@@ -8,6 +11,13 @@ export interface ModuleInfo {
 }
 
 export class ModuleScanner {
+  private expressionEvaluator: ExpressionEvaluator;
+  private maxResolveDepth = 10;
+
+  constructor() {
+    this.expressionEvaluator = new ExpressionEvaluator();
+  }
+
   /**
    * Find the module that contains a specific controller
    */
@@ -59,6 +69,8 @@ export class ModuleScanner {
 
   /**
    * Extract module information from decorator
+   * Controllers and imports added by dynamic modules (static forRoot()/register()
+   * methods returning { module, controllers }) belong to the module too
    */
   private extractModuleInfo(
     classDeclaration: ClassDeclaration,
@@ -67,14 +79,19 @@ export class ModuleScanner {
   ): ModuleInfo | null {
     try {
       const moduleName = classDeclaration.getName() || 'UnknownModule';
-      const controllers = this.extractControllers(moduleDecorator);
-      const imports = this.extractImports(moduleDecorator);
+      const metadata = [
+        this.resolveObjectLiteral(moduleDecorator.getArguments()[0]),
+        ...this.extractDynamicModuleMetadata(classDeclaration),
+      ];
+
+      const controllers = metadata.flatMap(object => this.resolveClassReferences(this.getMetadataProperty(object, 'controllers')));
+      const imports = metadata.flatMap(object => this.resolveClassReferences(this.getMetadataProperty(object, 'imports')));
 
       return {
         name: moduleName,
         filePath: sourceFile.getFilePath(),
-        controllers,
-        imports,
+        controllers: Array.from(new Set(controllers)),
+        imports: Array.from(new Set(imports)),
       };
     } catch (error) {
       return null;
@@ -82,61 +99,132 @@ export class ModuleScanner {
   }
 
   /**
-   * Extract controller names from @Module decorator
+   * Get the dynamic module objects returned by static methods of a module class
+   * Example:
+   *   static forRoot(): DynamicModule {
+   *     return { module: AdminModule, controllers: [AdminController] };
+   *   }
+   */
+  private extractDynamicModuleMetadata(classDeclaration: ClassDeclaration): Node[] {
+    return classDeclaration.getStaticMethods()
+      .flatMap(method => method.getDescendantsOfKind(SyntaxKind.ReturnStatement))
+      .map(statement => this.resolveObjectLiteral(statement.getExpression()))
+      .filter((object): object is Node => !!object && !!this.getMetadataProperty(object, 'module'));
+  }
+
+  /**
+   * Resolve an expression to an object literal (inline or declared in a constant)
    */
-  private extractControllers(decorator: Decorator): string[] {
-    const args = decorator.getArguments();
-    if (args.length === 0) return [];
+  private resolveObjectLiteral(node: Node | undefined, depth = 0): Node | undefined {
+    if (!node || depth > this.maxResolveDepth) return undefined;
 
-    const configObject = args[0];
-    const text = configObject.getText();
+    if (Node.isAsExpression(node) || Node.isSatisfiesExpression(node) || Node.isParenthesizedExpression(node)) {
+      return this.resolveObjectLiteral(node.getExpression(), depth + 1);
+    }
+
+    if (Node.isObjectLiteralExpression(node)) {
+      return node;
+    }
 
-    // Parse controllers array from the decorator
-    const controllersMatch = text.match(/controllers:\s*\[(.*?)\]/s);
-    if (!controllersMatch) return [];
+    const initializer = this.resolveVariableInitializer(node);
+    return initializer ? this.resolveObjectLiteral(initializer, depth + 1) : undefined;
+  }
 
-    const controllersText = controllersMatch[1];
+  /**
+   * Get a property of module metadata, e.g. `controllers` in { controllers: [...] } or { controllers }
+   */
+  private getMetadataProperty(object: Node | undefined, propertyName: string): Node | undefined {
+    if (!object || !Node.isObjectLiteralExpression(object)) return undefined;
 
-    // Extract controller names (remove whitespace, comments, etc.)
-    const controllers = controllersText
-      .split(',')
-      .map(c => c.trim())
-      .filter(c => c && !c.startsWith('//'))
-      .map(c => c.replace(/\/\*.*?\*\//g, '').trim());
+    const property = object.getProperty(propertyName);
+    if (property && Node.isPropertyAssignment(property)) {
+      return property.getInitializer();
+    }
 
-    return controllers;
+    if (property && Node.isShorthandPropertyAssignment(property)) {
+      const declaration = property.getValueSymbol()?.getDeclarations()[0];
+      return declaration && Node.isVariableDeclaration(declaration) ? declaration.getInitializer() : undefined;
+    }
+
+    return undefined;
   }
 
   /**
-   * Extract imported module names from @Module decorator
+   * Resolve a list of classes in module metadata to class names
+   * Examples:
+   * - [UsersController, ...adminControllers] -> ['UsersController', 'AdminController', ...]
+   * - TypeOrmModule.forFeature([User]) / ConfigModule.forRootAsync({...}) -> 'TypeOrmModule' / 'ConfigModule'
+   * - forwardRef(() => UsersModule) -> 'UsersModule'
+   * - { module: CacheModule, global: true } -> 'CacheModule'
    */
-  private extractImports(decorator: Decorator): string[] {
-    const args = decorator.getArguments();
-    if (args.length === 0) return [];
+  private resolveClassReferences(node: Node | undefined, depth = 0): string[] {
+    if (!node || depth > this.maxResolveDepth) return [];
+
+    if (
+      Node.isAsExpression(node) ||
+      Node.isSatisfiesExpression(node) ||
+      Node.isParenthesizedExpression(node) ||
+      Node.isSpreadElement(node) ||
+      Node.isNonNullExpression(node)
+    ) {
+      return this.resolveClassReferences(node.getExpression(), depth + 1);
+    }
 
-    const configObject = args[0];
-    const text = configObject.getText();
+    if (Node.isArrayLiteralExpression(node)) {
+      return node.getElements().flatMap(element => this.resolveClassReferences(element, depth + 1));
+    }
+
+    // ...(isProduction ? [] : [DebugController])
+    if (Node.isConditionalExpression(node)) {
+      return [
+        ...this.resolveClassReferences(node.getWhenTrue(), depth + 1),
+        ...this.resolveClassReferences(node.getWhenFalse(), depth + 1),
+      ];
+    }
 
-    // Parse imports array from the decorator
-    const importsMatch = text.match(/imports:\s*\[(.*?)\]/s);
-    if (!importsMatch) return [];
+    if (Node.isCallExpression(node)) {
+      const callee = node.getExpression();
 
-    const importsText = importsMatch[1];
+      if (Node.isIdentifier(callee) && callee.getText() === 'forwardRef') {
+        const factory = node.getArguments()[0];
+        return factory && Node.isArrowFunction(factory) ? this.resolveClassReferences(factory.getBody(), depth + 1) : [];
+      }
 
-    // Extract module names
-    const imports = importsText
-      .split(',')
-      .map(i => i.trim())
-      .filter(i => i && !i.startsWith('//'))
-      .map(i => i.replace(/\/\*.*?\*\//g, '').trim())
-      .map(i => {
-        // Handle forRoot/forRootAsync calls
-        const forRootMatch = i.match(/(\w+)\.forRoot/);
-        if (forRootMatch) return forRootMatch[1];
-        return i;
-      });
+      // Dynamic module factories: SomeModule.forRoot(), .forFeature(), .register(), ...
+      return Node.isPropertyAccessExpression(callee) ? this.resolveClassReferences(callee.getExpression(), depth + 1) : [];
+    }
+
+    if (Node.isObjectLiteralExpression(node)) {
+      return this.resolveClassReferences(this.getMetadataProperty(node, 'module'), depth + 1);
+    }
+
+    if (Node.isIdentifier(node) || Node.isPropertyAccessExpression(node)) {
+      // Arrays of classes declared elsewhere: const adminControllers = [...]
+      const initializer = this.resolveVariableInitializer(node);
+      if (initializer) {
+        return this.resolveClassReferences(initializer, depth + 1);
+      }
+
+      return [Node.isPropertyAccessExpression(node) ? node.getName() : node.getText()];
+    }
 
-    return imports;
+    return [];
+  }
+
+  /**
+   * Get the initializer of the variable or object property an expression refers to (following imports)
+   */
+  private resolveVariableInitializer(node: Node): Node | undefined {
+    if (!Node.isIdentifier(node) && !Node.isPropertyAccessExpression(node)) return undefined;
+
+    const symbol = node.getSymbol();
+    const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+    const declaration = target?.getDeclarations()
+      .find(decl => Node.isVariableDeclaration(decl) || Node.isPropertyAssignment(decl));
+
+    return declaration && (Node.isVariableDeclaration(declaration) || Node.isPropertyAssignment(declaration))
+      ? declaration.getInitializer()
+      : undefined;
   }
 
   /**
@@ -158,6 +246,223 @@ export class ModuleScanner {
     return parts.join(' ');
   }
 
+  /**
+   * Get the RouterModule path prefix of every controller
+   * A controller gets the path of its module in RouterModule.register() trees
+   * Like NestJS, modules only imported by a registered module get no path
+   * Example:
+   *   RouterModule.register([{ path: 'admin', module: AdminModule, children: [{ path: 'users', module: UsersModule }] }])
+   *   -> AdminController: 'admin', UsersController: 'admin/users'
+   */
+  getControllerRoutePrefixes(sourceFiles: SourceFile[]): Map<string, string> {
+    const prefixes = new Map<string, string>();
+    const modulePaths = this.extractRouterModulePaths(sourceFiles);
+    if (modulePaths.size === 0) return prefixes;
+
+    const modules = this.buildModuleTree(sourceFiles);
+
+    for (const module of modules.values()) {
+      const prefix = modulePaths.get(module.name);
+      if (!prefix) continue;
+
+      for (const controller of module.controllers) {
+        prefixes.set(controller, prefix);
+      }
+    }
+
+    return prefixes;
+  }
+
+  /**
+   * Get the documentation of every controller's module
+   * Sources, in order: @Module class JSDoc, <module>.docs.md, README.md next to the module file
+   * A JSDoc @see link becomes externalDocs
+   */
+  getControllerModuleDocs(sourceFiles: SourceFile[]): Map<string, ModuleDocsMetadata> {
+    const docs = new Map<string, ModuleDocsMetadata>();
+
+    for (const sourceFile of sourceFiles) {
+      for (const classDeclaration of sourceFile.getClasses()) {
+        const moduleDecorator = this.findModuleDecorator(classDeclaration);
+        if (!moduleDecorator) continue;
+
+        const moduleInfo = this.extractModuleInfo(classDeclaration, moduleDecorator, sourceFile);
+        const moduleDocs = this.extractModuleDocs(classDeclaration, sourceFile);
+        if (!moduleInfo || (!moduleDocs.description && !moduleDocs.externalDocs)) continue;
+
+        for (const controller of moduleInfo.controllers) {
+          if (!docs.has(controller)) {
+            docs.set(controller, moduleDocs);
+          }
+        }
+      }
+    }
+
+    return docs;
+  }
+
+  /**
+   * Extract the documentation of a module class
+   * Examples (billing/billing.module.ts):
+   * - JSDoc 'Invoices and payments.' with @see https://docs.example.com/billing Billing guide
+   *   -> description 'Invoices and payments.', externalDocs { url, description: 'Billing guide' }
+   * - billing/billing.docs.md or billing/README.md -> markdown description
+   */
+  private extractModuleDocs(classDeclaration: ClassDeclaration, sourceFile: SourceFile): ModuleDocsMetadata {
+    const jsDoc = classDeclaration.getJsDocs()[0];
+    const description = jsDoc?.getDescription().trim() || this.readModuleMarkdown(sourceFile);
+
+    const seeTag = jsDoc?.getTags().find(tag => tag.getTagName() === 'see');
+    const externalDocs = seeTag ? this.parseSeeTag(seeTag.getText()) : undefined;
+
+    return { description: description || undefined, externalDocs };
+  }
+
+  /**
+   * Read <module>.docs.md or README.md next to a module file
+   * A leading level-1 heading is dropped, since the UI shows the category name
+   */
+  private readModuleMarkdown(sourceFile: SourceFile): string | undefined {
+    const fileSystem = sourceFile.getProject().getFileSystem();
+    const directory = path.dirname(sourceFile.getFilePath());
+    const baseName = sourceFile.getBaseNameWithoutExtension();
+
+    const candidates = [
+      `${baseName.replace(/\.module$/, '')}.docs.md`,
+      `${baseName}.docs.md`,
+      'README.md',
+    ].map(fileName => path.join(directory, fileName));
+
+    const docsFile = candidates.find(candidate => fileSystem.fileExistsSync(candidate));
+    if (!docsFile) return undefined;
+
+    return fileSystem.readFileSync(docsFile)
+      .replace(/^\s*#\s+[^\n]*\n/, '')
+      .trim() || undefined;
+  }
+
+  /**
+   * Parse a JSDoc @see tag into an external documentation link
+   * Examples:
+   * - @see https://docs.example.com/billing Billing guide
+   * - @see {@link https://docs.example.com/billing|Billing guide}
+   */
+  private parseSeeTag(text: string): ModuleDocsMetadata['externalDocs'] {
+    const match = text.match(/(https?:\/\/[^\s|}]+)[\s|]*([^}*]*)/);
+    if (!match) return undefined;
+
+    const description = match[2].replace(/\s+/g, ' ').trim();
+    return description ? { url: match[1], description } : { url: match[1] };
+  }
+
+  /**
+   * Get the tag group of every controller from the module import tree
+   * The group is the ancestor of the controller's module `depth` imports below
+   * the root module; modules closer to the root are their own group
+   * Example (depth 1): AppModule -> BillingModule -> InvoicesModule
+   *   -> InvoicesController: 'Billing', BillingController: 'Billing'
+   * Controllers of modules the root module does not import get no group
+   */
+  getControllerGroups(sourceFiles: SourceFile[], rootModule: string, depth: number): Map<string, string> {
+    const groups = new Map<string, string>();
+    const modules = this.buildModuleTree(sourceFiles);
+    if (!modules.has(rootModule)) return groups;
+
+    // Shortest import chain from the root module to every reachable module
+    const chains = new Map<string, string[]>([[rootModule, [rootModule]]]);
+    const queue = [rootModule];
+
+    while (queue.length > 0) {
+      const chain = chains.get(queue.shift()!)!;
+
+      for (const imported of modules.get(chain[chain.length - 1])?.imports || []) {
+        if (chains.has(imported) || !modules.has(imported)) continue;
+
+        chains.set(imported, [...chain, imported]);
+        queue.push(imported);
+      }
+    }
+
+    for (const [moduleName, chain] of chains) {
+      const groupModule = chain[Math.min(Math.max(depth, 0), chain.length - 1)];
+
+      for (const controller of modules.get(moduleName)!.controllers) {
+        groups.set(controller, this.formatModuleName(groupModule));
+      }
+    }
+
+    return groups;
+  }
+
+  /**
+   * Extract module paths from RouterModule.register() calls
+   * Children paths are joined to their parent path
+   * Examples:
+   * - RouterModule.register([{ path: 'admin', module: AdminModule }]) -> AdminModule: 'admin'
+   * - { path: 'admin', children: [{ path: 'users', module: UsersModule }] } -> UsersModule: 'admin/users'
+   * - { path: 'admin', module: AdminModule, children: [ReportsModule] } -> ReportsModule: 'admin'
+   */
+  private extractRouterModulePaths(sourceFiles: SourceFile[]): Map<string, string> {
+    const modulePaths = new Map<string, string>();
+
+    for (const sourceFile of sourceFiles) {
+      for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        if (!/(^|\.)RouterModule\.register$/.test(call.getExpression().getText())) continue;
+
+        this.collectRouteTree(call.getArguments()[0], '', modulePaths, 0);
+      }
+    }
+
+    return modulePaths;
+  }
+
+  /**
+   * Collect module paths from a RouteTree array (inline or a `routes` constant)
+   */
+  private collectRouteTree(node: Node | undefined, parentPath: string, modulePaths: Map<string, string>, depth: number): void {
+    if (!node || depth > 10) return;
+
+    if (Node.isAsExpression(node) || Node.isSatisfiesExpression(node) || Node.isParenthesizedExpression(node)) {
+      this.collectRouteTree(node.getExpression(), parentPath, modulePaths, depth + 1);
+      return;
+    }
+
+    // Routes declared in a constant: const routes: Routes = [...]
+    if (Node.isIdentifier(node)) {
+      const symbol = node.getSymbol();
+      const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+      const declaration = target?.getDeclarations().find(decl => Node.isVariableDeclaration(decl));
+
+      if (declaration && Node.isVariableDeclaration(declaration)) {
+        this.collectRouteTree(declaration.getInitializer(), parentPath, modulePaths, depth + 1);
+      } else {
+        // Module class listed as a child: served under the parent path
+        modulePaths.set(node.getText(), parentPath);
+      }
+      return;
+    }
+
+    if (Node.isArrayLiteralExpression(node)) {
+      node.getElements().forEach(element => this.collectRouteTree(element, parentPath, modulePaths, depth + 1));
+      return;
+    }
+
+    if (!Node.isObjectLiteralExpression(node)) return;
+
+    const path = this.expressionEvaluator.evaluateConstant(this.expressionEvaluator.getObjectProperty(node, 'path')) ?? '';
+    const routePath = [parentPath, path]
+      .map(segment => segment.replace(/^\/+|\/+$/g, ''))
+      .filter(Boolean)
+      .join('/');
+
+    const module = this.expressionEvaluator.getObjectProperty(node, 'module');
+    if (module) {
+      modulePaths.set(module.getText(), routePath);
+    }
+
+    this.collectRouteTree(this.expressionEvaluator.getObjectProperty(node, 'children'), routePath, modulePaths, depth + 1);
+  }
+
   /**
    * Build module hierarchy tree
    */
@@ -355,6 +355,375 @@ describe('RouteScanner', () => {
       // Array types might be handled differently, just ensure no crash
       expect(routes[0]).toBeDefined();
     });
+
+    it('should record class names and file paths for nested DTO classes', () => {
+      project.createSourceFile(
+        'user.dto.ts',
+        `
+        export class AddressDto {
+          city: string;
+        }
+
+        export class UserDto {
+          name: string;
+          address: AddressDto;
+          previousAddresses: AddressDto[];
+        }
+        `,
+      );
+
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Post, Body } from '@nestjs/common';
+        import { UserDto } from './user.dto';
+
+        @Controller('test')
+        export class TestController {
+          @Post()
+          create(@Body() dto: UserDto) {
+            return dto;
+          }
+        }
+        `,
+      );
+
+      const classDecl = sourceFile.getClasses()[0];
+      const routes = scanner.scanRoutes(classDecl, 'test');
+      const requestBody = routes[0].requestBody;
+
+      expect(requestBody?.filePath).toBe('/user.dto.ts');
+
+      const address = requestBody?.properties.find(p => p.name === 'address');
+      expect(address?.type.className).toBe('AddressDto');
+      expect(address?.type.filePath).toBe('/user.dto.ts');
+      expect(address?.type.properties?.[0].name).toBe('city');
+
+      const previous = requestBody?.properties.find(p => p.name === 'previousAddresses');
+      expect(previous?.type.isArray).toBe(true);
+      expect(previous?.type.elementType?.className).toBe('AddressDto');
+    });
+  });
+
+  describe('analyzeDtoClass - mapped types', () => {
+    const scanBody = (dtoSource: string, bodyType: string) => {
+      project.createSourceFile(
+        'user.dto.ts',
+        `
+        import { IsEmail, IsString } from 'class-validator';
+
+        export class CreateUserDto {
+          @IsString()
+          name: string;
+
+          @IsEmail()
+          email: string;
+
+          password: string;
+        }
+
+        export class AddressDto {
+          city: string;
+        }
+        `,
+      );
+      project.createSourceFile('update-user.dto.ts', dtoSource);
+
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Patch, Body } from '@nestjs/common';
+        import { ${bodyType} } from './update-user.dto';
+
+        @Controller('test')
+        export class TestController {
+          @Patch()
+          update(@Body() dto: ${bodyType}) {
+            return dto;
+          }
+        }
+        `,
+      );
+
+      return scanner.scanRoutes(sourceFile.getClasses()[0], 'test')[0].requestBody;
+    };
+
+    it('should make every property optional with PartialType', () => {
+      const body = scanBody(
+        `
+        import { PartialType } from '@nestjs/mapped-types';
+        import { CreateUserDto } from './user.dto';
+
+        export class UpdateUserDto extends PartialType(CreateUserDto) {}
+        `,
+        'UpdateUserDto',
+      );
+
+      expect(body?.name).toBe('UpdateUserDto');
+      expect(body?.properties.map(p => p.name)).toEqual(['name', 'email', 'password']);
+      expect(body?.properties.every(p => !p.required)).toBe(true);
+      expect(body?.properties[0].validators?.[0].name).toBe('IsString');
+    });
+
+    it('should apply picked keys', () => {
+      const body = scanBody(
+        `
+        import { PickType } from '@nestjs/swagger';
+        import { CreateUserDto } from './user.dto';
+
+        export class LoginDto extends PickType(CreateUserDto, ['email', 'password'] as const) {}
+        `,
+        'LoginDto',
+      );
+
+      expect(body?.properties.map(p => p.name)).toEqual(['email', 'password']);
+      expect(body?.properties.every(p => p.required)).toBe(true);
+    });
+
+    it('should resolve nested helpers like PartialType(OmitType(...))', () => {
+      const body = scanBody(
+        `
+        import { OmitType, PartialType } from '@nestjs/mapped-types';
+        import { CreateUserDto } from './user.dto';
+
+        const IMMUTABLE_KEYS = ['password'] as const;
+
+        export class UpdateProfileDto extends PartialType(OmitType(CreateUserDto, IMMUTABLE_KEYS)) {
+          bio: string;
+        }
+        `,
+        'UpdateProfileDto',
+      );
+
+      expect(body?.properties.map(p => p.name)).toEqual(['name', 'email', 'bio']);
+      expect(body?.properties.find(p => p.name === 'email')?.required).toBe(false);
+      expect(body?.properties.find(p => p.name === 'bio')?.required).toBe(true);
+    });
+
+    it('should merge classes combined with IntersectionType', () => {
+      const body = scanBody(
+        `
+        import { IntersectionType, PickType } from '@nestjs/mapped-types';
+        import { AddressDto, CreateUserDto } from './user.dto';
+
+        export class RegisterDto extends IntersectionType(PickType(CreateUserDto, ['email']), AddressDto) {}
+        `,
+        'RegisterDto',
+      );
+
+      expect(body?.properties.map(p => p.name)).toEqual(['email', 'city']);
+    });
+  });
+
+  describe('analyzeDtoClass - inherited properties', () => {
+    it('should include properties from base classes with validators and JSDoc', () => {
+      project.createSourceFile(
+        'base.dto.ts',
+        `
+        import { IsUUID } from 'class-validator';
+
+        export class BaseEntityDto {
+          /** Unique identifier */
+          @IsUUID()
+          id: string;
+
+          createdAt: Date;
+
+          /** Base description */
+          name: string;
+        }
+
+        export class NamedEntityDto extends BaseEntityDto {
+          /** Display name */
+          name: string;
+        }
+        `,
+      );
+
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Get } from '@nestjs/common';
+        import { NamedEntityDto } from './base.dto';
+
+        export class UserDto extends NamedEntityDto {
+          email?: string;
+        }
+
+        @Controller('test')
+        export class TestController {
+          @Get()
+          find(): UserDto {
+            return null;
+          }
+        }
+        `,
+      );
+
+      const classDecl = sourceFile.getClass('TestController')!;
+      const responseType = scanner.scanRoutes(classDecl, 'test')[0].responseType;
+
+      expect(responseType?.properties.map(p => p.name)).toEqual(['id', 'createdAt', 'name', 'email']);
+
+      const id = responseType?.properties.find(p => p.name === 'id');
+      expect(id?.description).toBe('Unique identifier');
+      expect(id?.validators?.[0].name).toBe('IsUUID');
+
+      // Subclass definitions override base ones
+      expect(responseType?.properties.find(p => p.name === 'name')?.description).toBe('Display name');
+      expect(responseType?.properties.find(p => p.name === 'email')?.required).toBe(false);
+    });
+
+    it('should resolve property types from generic base classes', () => {
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Get } from '@nestjs/common';
+
+        export class PaginatedDto<T> {
+          items: T[];
+          total: number;
+        }
+
+        export class ItemDto {
+          title: string;
+        }
+
+        export class ItemListDto extends PaginatedDto<ItemDto> {}
+
+        @Controller('test')
+        export class TestController {
+          @Get()
+          list(): ItemListDto {
+            return null;
+          }
+        }
+        `,
+      );
+
+      const classDecl = sourceFile.getClass('TestController')!;
+      const responseType = scanner.scanRoutes(classDecl, 'test')[0].responseType;
+
+      const items = responseType?.properties.find(p => p.name === 'items');
+      expect(items?.type.isArray).toBe(true);
+      expect(items?.type.elementType?.className).toBe('ItemDto');
+      expect(responseType?.properties.find(p => p.name === 'total')?.type.type).toBe('number');
+    });
+  });
+
+  describe('extractRoutePaths - constants, enums and aliases', () => {
+    beforeEach(() => {
+      project.createSourceFile(
+        'routes.ts',
+        `
+        export const API_PREFIX = 'api';
+
+        export const ROUTES = {
+          PROFILE: 'profile',
+          SEARCH: API_PREFIX + '/search',
+        };
+
+        export enum UserRoutes {
+          BY_ID = ':id',
+        }
+        `,
+      );
+    });
+
+    it('should resolve constants, enum members and template expressions', () => {
+      const sourceFile = project.createSourceFile(
+        'users.controller.ts',
+        `
+        import { Controller, Get } from '@nestjs/common';
+        import { ROUTES, UserRoutes, API_PREFIX } from './routes';
+
+        const LOCAL = 'local' as const;
+
+        @Controller('users')
+        export class UsersController {
+          @Get(UserRoutes.BY_ID)
+          findOne() {}
+
+          @Get(\`\${ROUTES.PROFILE}/avatar\`)
+          avatar() {}
+
+          @Get(ROUTES.SEARCH)
+          search() {}
+
+          @Get(LOCAL)
+          local() {}
+
+          @Get(\`\${API_PREFIX}/\${UserRoutes.BY_ID}\`)
+          prefixed() {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[0], 'users');
+
+      expect(routes.map(route => route.path)).toEqual([':id', 'profile/avatar', 'api/search', 'local', 'api/:id']);
+      expect(routes[0].fullPath).toBe('/users/:id');
+    });
+
+    it('should extract array paths and @RequestMapping options', () => {
+      const sourceFile = project.createSourceFile(
+        'users.controller.ts',
+        `
+        import { Controller, Get, RequestMapping, RequestMethod } from '@nestjs/common';
+        import { ROUTES } from './routes';
+
+        const PROFILE_PATHS = ['profile', 'me'];
+
+        @Controller('users')
+        export class UsersController {
+          @Get(['search', ROUTES.SEARCH])
+          search() {}
+
+          @Get(PROFILE_PATHS)
+          profile() {}
+
+          @RequestMapping({ path: ['sync', 'refresh'], method: RequestMethod.PUT })
+          sync() {}
+
+          @RequestMapping({ path: 'ping' })
+          ping() {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[0], 'users');
+
+      expect(routes.map(route => [route.httpMethod, route.path, route.paths])).toEqual([
+        ['GET', 'search', ['search', 'api/search']],
+        ['GET', 'profile', ['profile', 'me']],
+        ['PUT', 'sync', ['sync', 'refresh']],
+        ['GET', 'ping', undefined],
+      ]);
+      expect(routes[0].fullPath).toBe('/users/search');
+    });
+
+    it('should warn about paths that cannot be resolved', () => {
+      const warn = jest.spyOn((scanner as any).logger, 'warn').mockImplementation(() => undefined);
+      const sourceFile = project.createSourceFile(
+        'users.controller.ts',
+        `
+        import { Controller, Get } from '@nestjs/common';
+
+        declare function buildPath(): string;
+
+        @Controller('users')
+        export class UsersController {
+          @Get(buildPath())
+          findAll() {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[0], 'users');
+
+      expect(routes[0].path).toBe('');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Could not resolve route path buildPath()'));
+    });
   });
 
   describe('scanRoutes - HTTP methods', () => {
@@ -526,6 +895,154 @@ describe('RouteScanner', () => {
     });
   });
 
+  describe('extractParameters - parameter types and pipes', () => {
+    const scanParams = (methodText: string) => {
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Get, Param, Query, Headers, ParseIntPipe, ParseUUIDPipe, ParseBoolPipe, ParseEnumPipe, ParseArrayPipe, DefaultValuePipe } from '@nestjs/common';
+
+        enum OrderStatus {
+          Pending = 'pending',
+          Shipped = 'shipped',
+        }
+
+        enum Priority {
+          Low,
+          High,
+        }
+
+        @Controller('orders')
+        export class OrdersController {
+          ${methodText}
+        }
+        `,
+        { overwrite: true },
+      );
+
+      return scanner.scanRoutes(sourceFile.getClasses()[0], 'orders')[0].params!;
+    };
+
+    it('should analyze declared parameter types', () => {
+      const params = scanParams(`
+        @Get(':id')
+        findOne(@Param('id') id: string, @Query('sort') sort?: 'asc' | 'desc', @Query() raw?: any) {}
+      `);
+
+      expect(params[0].type).toMatchObject({ type: 'string', isPrimitive: true });
+      expect(params[1].type).toMatchObject({ isEnum: true, enumValues: ['asc', 'desc'] });
+      expect(params[2].type).toMatchObject({ type: 'string', isPrimitive: true });
+    });
+
+    it('should make query params required unless optional or defaulted', () => {
+      const params = scanParams(`
+        @Get()
+        findAll(
+          @Query('search') search: string,
+          @Query('tag') tag?: string,
+          @Query('limit') limit: number = 20,
+          @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+        ) {}
+      `);
+
+      expect(params.map(param => param.required)).toEqual([true, false, false, false]);
+      expect(params[2].defaultValue).toBe(20);
+      expect(params[3].defaultValue).toBe(1);
+    });
+
+    it('should derive types from parse pipes', () => {
+      const params = scanParams(`
+        @Get(':id')
+        findOne(
+          @Param('id', ParseIntPipe) id: number,
+          @Query('ref', new ParseUUIDPipe({ version: '4' })) ref: string,
+          @Query('archived', ParseBoolPipe) archived: boolean,
+          @Query('status', new ParseEnumPipe(OrderStatus)) status: OrderStatus,
+          @Query('ids', new ParseArrayPipe({ items: Number, separator: ',' })) ids: number[],
+        ) {}
+      `);
+
+      expect(params[0].type).toMatchObject({ type: 'integer', isPrimitive: true });
+      expect(params.every(param => param.validated)).toBe(true);
+      expect(params[1].type).toMatchObject({ type: 'string', format: 'uuid' });
+      expect(params[2].type).toMatchObject({ type: 'boolean' });
+      expect(params[3].type).toMatchObject({ type: 'string', isEnum: true, enumValues: ['pending', 'shipped'] });
+      expect(params[4].type).toMatchObject({ isArray: true, elementType: { type: 'number' } });
+      expect(params[4].arraySeparator).toBe(',');
+    });
+
+    it('should type numeric enums from ParseEnumPipe as numbers', () => {
+      const params = scanParams(`
+        @Get()
+        findAll(@Query('priority', new ParseEnumPipe(Priority)) priority: Priority) {}
+      `);
+
+      expect(params[0].type).toMatchObject({ type: 'number', isEnum: true, enumValues: [0, 1] });
+    });
+
+    it('should capture named @Headers() and skip the whole headers object', () => {
+      const params = scanParams(`
+        @Get()
+        findAll(@Headers('x-tenant-id') tenantId: string, @Headers() headers: Record<string, string>) {}
+      `);
+
+      expect(params).toHaveLength(1);
+      expect(params[0]).toMatchObject({ name: 'x-tenant-id', in: 'header', required: true, type: { type: 'string' } });
+    });
+  });
+
+  describe('extractParameters - @Query() DTOs', () => {
+    it('should expand a query DTO into one parameter per property', () => {
+      const sourceFile = project.createSourceFile(
+        'users.controller.ts',
+        `
+        import { Controller, Get, Query } from '@nestjs/common';
+        import { IsOptional, IsInt, Min, Max, IsEnum } from 'class-validator';
+
+        enum SortOrder {
+          Asc = 'asc',
+          Desc = 'desc',
+        }
+
+        export class ListUsersQueryDto {
+          /** Page number */
+          @IsInt()
+          @Min(1)
+          page: number;
+
+          @IsOptional()
+          @Max(100)
+          limit: number;
+
+          @IsEnum(SortOrder)
+          order?: SortOrder;
+
+          tags: string[];
+        }
+
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          findAll(@Query() filters: ListUsersQueryDto, @Query('search') search?: string) {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[1], 'users');
+      const params = routes[0].params!;
+
+      expect(params.map(param => param.name)).toEqual(['page', 'limit', 'order', 'tags', 'search']);
+      expect(params.every(param => param.in === 'query')).toBe(true);
+      expect(params[0]).toMatchObject({ required: true, description: 'Page number' });
+      expect(params[0].validators?.map(validator => validator.name)).toEqual(['IsInt', 'Min']);
+      expect(params[1].required).toBe(false);
+      expect(params[1].validators?.[1].constraints).toEqual({ maximum: 100 });
+      expect(params[2].required).toBe(false);
+      expect(params[2].validators?.[0].constraints).toEqual({ enum: ['asc', 'desc'] });
+      expect(params[3].type.isArray).toBe(true);
+    });
+  });
+
   describe('extractGuards', () => {
     it('should extract guards from @UseGuards decorator', () => {
       const sourceFile = project.createSourceFile(
@@ -650,6 +1167,482 @@ describe('RouteScanner', () => {
     });
   });
 
+  describe('extractVersions', () => {
+    it('should extract versions from @Version decorator', () => {
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Get, Version, VERSION_NEUTRAL } from '@nestjs/common';
+
+        @Controller('test')
+        export class TestController {
+          @Version(['1', '2'])
+          @Get()
+          findAll() {}
+
+          @Version('3')
+          @Get(':id')
+          findOne() {}
+
+          @Version(VERSION_NEUTRAL)
+          @Get('health')
+          health() {}
+
+          @Get('plain')
+          plain() {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[0], 'test');
+
+      expect(routes[0].versions).toEqual(['1', '2']);
+      expect(routes[1].versions).toEqual(['3']);
+      expect(routes[2].versions).toEqual(['VERSION_NEUTRAL']);
+      expect(routes[3].versions).toBeUndefined();
+    });
+
+    it('should resolve constant and enum versions', () => {
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Get, Version, VERSION_NEUTRAL } from '@nestjs/common';
+
+        const API_V2 = '2';
+        enum ApiVersion { V1 = '1', V2 = '2' }
+        const NEUTRAL = VERSION_NEUTRAL;
+
+        @Controller('test')
+        export class TestController {
+          @Version(API_V2)
+          @Get()
+          findAll() {}
+
+          @Version([ApiVersion.V1, API_V2])
+          @Get(':id')
+          findOne() {}
+
+          @Version(NEUTRAL)
+          @Get('health')
+          health() {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[0], 'test');
+
+      expect(routes[0].versions).toEqual(['2']);
+      expect(routes[1].versions).toEqual(['1', '2']);
+      expect(routes[2].versions).toEqual(['VERSION_NEUTRAL']);
+    });
+  });
+
+  describe('extractAuthorizationValues', () => {
+    it('should extract roles and scopes, letting method decorators override class decorators', () => {
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Get, Post } from '@nestjs/common';
+
+        @Roles('admin')
+        @Controller('users')
+        export class UsersController {
+          @Get()
+          findAll() {}
+
+          @Roles('admin', 'editor')
+          @Scopes(['users:write', 'users:read'])
+          @Post()
+          create() {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[0], 'users');
+
+      expect(routes[0].roles).toEqual(['admin']);
+      expect(routes[0].scopes).toBeUndefined();
+      expect(routes[1].roles).toEqual(['admin', 'editor']);
+      expect(routes[1].scopes).toEqual(['users:write', 'users:read']);
+    });
+
+    it('should use configured decorator names', () => {
+      scanner = new RouteScanner(project, { roleDecorators: ['RequireRoles'], scopeDecorators: ['RequireScopes'] });
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        @Controller('users')
+        export class UsersController {
+          @RequireRoles(Role.Admin)
+          @RequireScopes('users:delete')
+          @Roles('ignored')
+          @Delete(':id')
+          remove() {}
+        }
+        `,
+      );
+
+      const warn = jest.spyOn((scanner as any).expressionEvaluator.logger, 'warn').mockImplementation(() => undefined);
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[0], 'users');
+
+      // Role is not declared, so the source text is kept
+      expect(routes[0].roles).toEqual(['Role.Admin']);
+      expect(routes[0].scopes).toEqual(['users:delete']);
+      expect(warn).toHaveBeenCalledWith('Could not resolve Role.Admin, using its source text');
+    });
+
+    it('should resolve enum roles and constant scopes', () => {
+      project.createSourceFile(
+        'auth.constants.ts',
+        `
+        export enum Role { Admin = 'admin', Editor = 'editor' }
+        export const SCOPES = { USERS_WRITE: 'users:write' };
+        export const READ_SCOPES = ['users:read', 'orders:read'];
+        `,
+      );
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Post } from '@nestjs/common';
+        import { Role, SCOPES, READ_SCOPES } from './auth.constants';
+
+        @Controller('users')
+        export class UsersController {
+          @Roles(Role.Admin, Role.Editor)
+          @Scopes(SCOPES.USERS_WRITE, READ_SCOPES)
+          @Post()
+          create() {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[0], 'users');
+
+      expect(routes[0].roles).toEqual(['admin', 'editor']);
+      expect(routes[0].scopes).toEqual(['users:write', 'users:read', 'orders:read']);
+    });
+  });
+
+  describe('file uploads', () => {
+    it('should extract files handled by file interceptors', () => {
+      const sourceFile = project.createSourceFile(
+        'upload.controller.ts',
+        `
+        import { Controller, Post, Body, UseInterceptors, UploadedFile, UploadedFiles } from '@nestjs/common';
+        import { FileInterceptor, FilesInterceptor, FileFieldsInterceptor, AnyFilesInterceptor } from '@nestjs/platform-express';
+
+        class ProfileDto {
+          bio: string;
+        }
+
+        @Controller('uploads')
+        export class UploadController {
+          @Post('avatar')
+          @UseInterceptors(FileInterceptor('avatar'))
+          uploadAvatar(@UploadedFile() file: any, @Body() profile: ProfileDto) {}
+
+          @Post('photos')
+          @UseInterceptors(FilesInterceptor('photos', 10))
+          uploadPhotos(@UploadedFiles() files: any[]) {}
+
+          @Post('documents')
+          @UseInterceptors(FileFieldsInterceptor([{ name: 'cover', maxCount: 1 }, { name: 'pages' }]))
+          uploadDocuments(@UploadedFiles() files: any) {}
+
+          @Post('any')
+          @UseInterceptors(AnyFilesInterceptor())
+          uploadAny(@UploadedFiles() files: any[]) {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClassOrThrow('UploadController'), 'uploads');
+
+      expect(routes[0].fileUploads).toEqual([{ fieldName: 'avatar', isArray: false, required: false }]);
+      expect(routes[0].requestBody?.name).toBe('ProfileDto');
+      expect(routes[0].params).toEqual([]);
+      expect(routes[1].fileUploads).toEqual([{ fieldName: 'photos', isArray: true, maxCount: 10, required: false }]);
+      expect(routes[2].fileUploads).toEqual([
+        { fieldName: 'cover', isArray: false, maxCount: 1, required: false },
+        { fieldName: 'pages', isArray: true, maxCount: undefined, required: false },
+      ]);
+      expect(routes[3].fileUploads).toEqual([{ isArray: true, required: false }]);
+    });
+
+    it('should describe ParseFilePipe validators', () => {
+      const sourceFile = project.createSourceFile(
+        'upload.controller.ts',
+        `
+        import { Controller, Post, UseInterceptors, UploadedFile, ParseFilePipe, ParseFilePipeBuilder, MaxFileSizeValidator, FileTypeValidator } from '@nestjs/common';
+        import { FileInterceptor } from '@nestjs/platform-express';
+
+        @Controller('uploads')
+        export class UploadController {
+          @Post('avatar')
+          @UseInterceptors(FileInterceptor('avatar'))
+          uploadAvatar(
+            @UploadedFile(
+              new ParseFilePipe({
+                validators: [
+                  new MaxFileSizeValidator({ maxSize: 2 * 1024 * 1024 }),
+                  new FileTypeValidator({ fileType: 'image/jpeg' }),
+                ],
+              }),
+            )
+            file: any,
+          ) {}
+
+          @Post('resume')
+          @UseInterceptors(FileInterceptor('resume'))
+          uploadResume(
+            @UploadedFile(
+              new ParseFilePipeBuilder()
+                .addFileTypeValidator({ fileType: /pdf$/ })
+                .addMaxSizeValidator({ maxSize: 1500 })
+                .build({ fileIsRequired: false }),
+            )
+            file: any,
+          ) {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[0], 'uploads');
+
+      expect(routes[0].fileUploads).toEqual([{
+        fieldName: 'avatar',
+        isArray: false,
+        required: true,
+        constraints: ['Max size: 2 MB', 'Allowed types: image/jpeg'],
+      }]);
+      expect(routes[1].fileUploads![0].required).toBe(false);
+      expect(routes[1].fileUploads![0].constraints).toEqual(expect.arrayContaining([
+        'Allowed types: /pdf$/',
+        'Max size: 1500 bytes',
+      ]));
+    });
+  });
+
+  describe('response decorators', () => {
+    it('should extract @HttpCode, @Header, @Redirect and void returns', () => {
+      const sourceFile = project.createSourceFile(
+        'test.controller.ts',
+        `
+        import { Controller, Get, Post, Delete, HttpCode, HttpStatus, Header, Redirect, Res } from '@nestjs/common';
+
+        @Controller('test')
+        export class TestController {
+          @Delete(':id')
+          @HttpCode(HttpStatus.NO_CONTENT)
+          async remove(): Promise<void> {}
+
+          @Get()
+          @Header('Cache-Control', 'no-store')
+          @Header('X-Source', 'cache')
+          findAll() {
+            return [];
+          }
+
+          @Get('docs')
+          @Redirect('https://docs.nestjs.com', 301)
+          docs() {}
+
+          @Get('legacy')
+          @Redirect()
+          legacy() {}
+
+          @Post('raw')
+          raw(@Res() res: any): void {}
+        }
+        `,
+      );
+
+      const routes = scanner.scanRoutes(sourceFile.getClasses()[0], 'test');
+
+      expect(routes[0].statusCode).toBe(204);
+      expect(routes[0].returnsVoid).toBe(true);
+      expect(routes[1].responseHeaders).toEqual({ 'Cache-Control': 'no-store', 'X-Source': 'cache' });
+      expect(routes[1].returnsVoid).toBeUndefined();
+      expect(routes[2].redirect).toEqual({ url: 'https://docs.nestjs.com', statusCode: 301 });
+      expect(routes[3].redirect).toEqual({ url: undefined, statusCode: 302 });
+      expect(routes[4].returnsVoid).toBeUndefined();
+    });
+  });
+
+  describe('exception analysis', () => {
+    beforeEach(() => {
+      project.createSourceFile(
+        'users.exceptions.ts',
+        `
+        import { HttpException, HttpStatus, ConflictException } from '@nestjs/common';
+
+        export class UserLockedException extends HttpException {
+          constructor() {
+            super('User account is locked', HttpStatus.LOCKED);
+          }
+        }
+
+        export class EmailTakenException extends ConflictException {}
+        `,
+      );
+      project.createSourceFile(
+        'users.repository.ts',
+        `
+        import { ServiceUnavailableException } from '@nestjs/common';
+
+        export class UsersRepository {
+          query() {
+            throw new ServiceUnavailableException('Database unavailable');
+          }
+        }
+        `,
+      );
+      project.createSourceFile(
+        'users.service.ts',
+        `
+        import { NotFoundException, BadRequestException } from '@nestjs/common';
+        import { UserLockedException, EmailTakenException } from './users.exceptions';
+        import { UsersRepository } from './users.repository';
+
+        export class UsersService {
+          constructor(private readonly repository: UsersRepository) {}
+
+          findOne(id: string) {
+            if (!id) throw new NotFoundException('User not found');
+            this.assertActive(id);
+            return this.repository.query();
+          }
+
+          create(email: string) {
+            try {
+              JSON.parse(email);
+            } catch {
+              throw new BadRequestException({ message: 'Invalid email payload' });
+            }
+
+            try {
+              throw new NotFoundException('Swallowed');
+            } catch (error) {}
+
+            throw new EmailTakenException();
+          }
+
+          update(id: string) {
+            try {
+              return this.findOne(id);
+            } catch (error) {
+              if (error instanceof NotFoundException) throw error;
+              throw new BadRequestException('Update failed');
+            }
+          }
+
+          archive(id: string) {
+            return this.findOne(id);
+          }
+
+          private assertActive(id: string) {
+            throw new UserLockedException();
+          }
+        }
+        `,
+      );
+    });
+
+    const scanController = () => {
+      const sourceFile = project.createSourceFile(
+        'users.controller.ts',
+        `
+        import { Controller, Get, Post, Put, Delete, HttpException, ForbiddenException } from '@nestjs/common';
+        import { UsersService } from './users.service';
+
+        @Controller('users')
+        export class UsersController {
+          constructor(private readonly usersService: UsersService) {}
+
+          @Get(':id')
+          findOne(id: string) {
+            return this.usersService.findOne(id);
+          }
+
+          @Post()
+          create(email: string) {
+            if (email.endsWith('@blocked.com')) {
+              throw new ForbiddenException();
+            }
+            if (email.length > 200) {
+              throw new HttpException('Email too long', 413);
+            }
+            return this.usersService.create(email);
+          }
+
+          @Get()
+          findAll() {
+            return [];
+          }
+
+          @Put(':id')
+          update(id: string) {
+            return this.usersService.update(id);
+          }
+
+          @Delete(':id')
+          archive(id: string) {
+            this.usersService.archive(id);
+            return this.usersService.findOne(id);
+          }
+        }
+        `,
+      );
+
+      return scanner.scanRoutes(sourceFile.getClasses()[0], 'users');
+    };
+
+    it('should follow calls into injected services and their helpers', () => {
+      const routes = scanController();
+
+      expect(routes[0].exceptions).toEqual([
+        { statusCode: 404, description: 'User not found' },
+        { statusCode: 423, description: 'User account is locked' },
+        { statusCode: 503, description: 'Database unavailable' },
+      ]);
+    });
+
+    it('should resolve built-in, HttpException and custom exceptions, skipping caught ones', () => {
+      const routes = scanController();
+
+      expect(routes[1].exceptions).toEqual([
+        { statusCode: 400, description: 'Invalid email payload' },
+        { statusCode: 403, description: 'Forbidden' },
+        { statusCode: 409, description: 'Email taken' },
+        { statusCode: 413, description: 'Email too long' },
+      ]);
+      expect(routes[2].exceptions).toBeUndefined();
+    });
+
+    it('should keep exceptions from try blocks whose catch clause rethrows the error', () => {
+      const routes = scanController();
+
+      expect(routes[3].exceptions).toEqual([
+        { statusCode: 400, description: 'Update failed' },
+        { statusCode: 404, description: 'User not found' },
+      ]);
+    });
+
+    it('should expand functions again when reached with more depth left', () => {
+      const routes = scanController();
+
+      // findOne is first reached through archive() with no depth left for its calls
+      expect(routes[4].exceptions?.map(exception => exception.statusCode)).toEqual([404, 423, 503]);
+    });
+
+    it('should respect exceptionAnalysisDepth', () => {
+      scanner = new RouteScanner(project, { exceptionAnalysisDepth: 1 });
+      const routes = scanController();
+
+      expect(routes[0].exceptions?.map(exception => exception.statusCode)).toEqual([404]);
+    });
+  });
+
   describe('JSDoc extraction', () => {
     it('should extract route description from JSDoc', () => {
       const sourceFile = project.createSourceFile(
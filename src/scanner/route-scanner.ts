@@ -1,14 +1,35 @@
-import { ClassDeclaration, MethodDeclaration, Decorator, SyntaxKind, Project } from 'ts-morph';
-import { RouteMetadata, ParamMetadata, HttpMethod, DtoMetadata, PropertyMetadata } from '../interfaces';
+import { Logger } from '@nestjs/common';
+import { ClassDeclaration, MethodDeclaration, ParameterDeclaration, PropertyDeclaration, Decorator, Project, Node, Type } from 'ts-morph';
+import { RouteMetadata, ParamMetadata, HttpMethod, DtoMetadata, PropertyMetadata, TypeMetadata, ValidatorMetadata, AutoDocsOptions } from '../interfaces';
 import { DtoAnalyzer } from './dto-analyzer';
+import { ExpressionEvaluator } from './expression-evaluator';
+import { ExceptionAnalyzer } from './exception-analyzer';
+import { ValidatorExtractor } from './validator-extractor';
+import { FileUploadExtractor } from './file-upload-extractor';
+
+/**
+ * Decorators marking a route or controller as public (no authentication)
+ */
+export const PUBLIC_DECORATORS = ['Public', 'SkipAuth', 'SkipGuard', 'SkipAllGuards'];
 
 export class RouteScanner {
+  private readonly logger = new Logger(RouteScanner.name);
   private dtoAnalyzer: DtoAnalyzer;
+  private expressionEvaluator: ExpressionEvaluator;
+  private exceptionAnalyzer: ExceptionAnalyzer;
+  private validatorExtractor: ValidatorExtractor;
+  private fileUploadExtractor: FileUploadExtractor;
   private project: Project;
+  private options: Partial<AutoDocsOptions>;
 
-  constructor(project: Project) {
+  constructor(project: Project, options: Partial<AutoDocsOptions> = {}) {
     this.project = project;
+    this.options = options;
     this.dtoAnalyzer = new DtoAnalyzer();
+    this.expressionEvaluator = new ExpressionEvaluator();
+    this.exceptionAnalyzer = new ExceptionAnalyzer();
+    this.validatorExtractor = new ValidatorExtractor();
+    this.fileUploadExtractor = new FileUploadExtractor();
   }
 
   /**
@@ -41,8 +62,9 @@ export class RouteScanner {
       return null;
     }
 
-    const httpMethod = httpDecorator.getName().toUpperCase() as HttpMethod;
-    const routePath = this.extractRoutePath(httpDecorator);
+    const httpMethod = this.extractHttpMethod(httpDecorator);
+    const routePaths = this.extractRoutePaths(httpDecorator);
+    const routePath = routePaths[0];
     const fullPath = this.combinePaths(controllerPath, routePath);
 
     // Extract JSDoc description
@@ -57,6 +79,9 @@ export class RouteScanner {
     // Extract request body DTO
     const requestBody = this.extractRequestBody(method);
 
+    // Extract files uploaded through file interceptors (multipart/form-data)
+    const fileUploads = this.fileUploadExtractor.extractFileUploads(method);
+
     // Extract response type
     const responseType = this.extractResponseType(method);
 
@@ -66,17 +91,42 @@ export class RouteScanner {
     // Check if public route
     const isPublic = this.isPublicRoute(method);
 
+    // Extract versions from @Version() decorator
+    const versions = this.extractVersions(method);
+
+    // Extract roles and scopes from authorization decorators (e.g. @Roles, @Scopes)
+    const roles = this.extractAuthorizationValues(method, this.options.roleDecorators || ['Roles']);
+    const scopes = this.extractAuthorizationValues(method, this.options.scopeDecorators || ['Scopes']);
+
+    // Extract @HttpCode, @Header and @Redirect
+    const statusCode = this.extractHttpCode(method);
+    const responseHeaders = this.extractResponseHeaders(method);
+    const redirect = this.extractRedirect(method);
+
+    // Find HttpExceptions thrown by the handler and the services it calls
+    const exceptions = this.exceptionAnalyzer.analyze(method, this.options.exceptionAnalysisDepth ?? 2);
+
     return {
       name: method.getName(),
       httpMethod,
       path: routePath,
+      paths: routePaths.length > 1 ? routePaths : undefined,
       fullPath,
       description,
       params,
       requestBody,
+      fileUploads: fileUploads.length > 0 ? fileUploads : undefined,
       responseType,
       guards,
       isPublic,
+      versions: versions.length > 0 ? versions : undefined,
+      roles: roles.length > 0 ? roles : undefined,
+      scopes: scopes.length > 0 ? scopes : undefined,
+      exceptions: exceptions.length > 0 ? exceptions : undefined,
+      statusCode,
+      responseHeaders: Object.keys(responseHeaders).length > 0 ? responseHeaders : undefined,
+      redirect,
+      returnsVoid: this.returnsVoid(method) || undefined,
     };
   }
 
@@ -289,12 +339,12 @@ export class RouteScanner {
     const className = dtoClass.getName() || 'Unknown';
     const properties: PropertyMetadata[] = [];
 
-    // Get class properties
-    const classProperties = dtoClass.getProperties();
+    // Get class properties (including inherited and mapped type properties)
+    const classProperties = this.dtoAnalyzer.getDtoProperties(dtoClass);
 
-    for (const prop of classProperties) {
+    for (const { declaration: prop, optional, type } of classProperties) {
       const propName = prop.getName();
-      const propType = prop.getType();
+      const propType = type || prop.getType();
 
       // Extract JSDoc description
       const jsDocs = prop.getJsDocs();
@@ -305,8 +355,8 @@ export class RouteScanner {
       // Analyze property type
       const typeMetadata = this.dtoAnalyzer.analyzeType(propType);
 
-      // Check if required (no ? and no initializer)
-      const required = !prop.hasQuestionToken() && !prop.hasInitializer();
+      // Check if required (not made optional by PartialType, no ? and no initializer)
+      const required = !optional && !prop.hasQuestionToken() && !prop.hasInitializer();
 
       // Extract validators from decorators
       const validators = this.extractPropertyValidators(prop);
@@ -331,36 +381,15 @@ export class RouteScanner {
       name: className,
       properties,
       description: classDescription,
+      filePath: dtoClass.getSourceFile().getFilePath(),
     };
   }
 
   /**
    * Extract validators from property decorators
    */
-  private extractPropertyValidators(prop: any): any[] {
-    const validators: any[] = [];
-    const decorators = prop.getDecorators();
-
-    const validatorNames = [
-      'IsString', 'IsNumber', 'IsBoolean', 'IsEmail', 'IsUrl', 'IsUUID',
-      'IsDate', 'IsEnum', 'IsArray', 'IsOptional', 'IsNotEmpty',
-      'Min', 'Max', 'MinLength', 'MaxLength', 'Length',
-      'Matches', 'IsIn', 'IsNotIn',
-    ];
-
-    for (const decorator of decorators) {
-      const decoratorName = decorator.getName();
-
-      if (validatorNames.includes(decoratorName)) {
-        const args = decorator.getArguments().map(arg => arg.getText());
-        validators.push({
-          name: decoratorName,
-          args,
-        });
-      }
-    }
-
-    return validators;
+  private extractPropertyValidators(prop: PropertyDeclaration): ValidatorMetadata[] {
+    return this.validatorExtractor.extractValidators(prop);
   }
 
   /**
@@ -393,34 +422,59 @@ export class RouteScanner {
    * Find HTTP method decorator
    */
   private findHttpDecorator(decorators: Decorator[]): Decorator | undefined {
-    const httpMethods = ['Get', 'Post', 'Put', 'Patch', 'Delete', 'Options', 'Head'];
+    const httpMethods = ['Get', 'Post', 'Put', 'Patch', 'Delete', 'Options', 'Head', 'RequestMapping'];
     return decorators.find(dec => httpMethods.includes(dec.getName()));
   }
 
   /**
-   * Extract route path from decorator
+   * Extract the HTTP method of a route decorator
+   * @RequestMapping({ method }) defaults to GET like NestJS
+   * Examples:
+   * - @Post() -> 'POST'
+   * - @RequestMapping({ path: 'users', method: RequestMethod.PUT }) -> 'PUT'
    */
-  private extractRoutePath(decorator: Decorator): string {
-    const args = decorator.getArguments();
-
-    if (args.length === 0) {
-      return '';
+  private extractHttpMethod(decorator: Decorator): HttpMethod {
+    if (decorator.getName() !== 'RequestMapping') {
+      return decorator.getName().toUpperCase() as HttpMethod;
     }
 
-    const firstArg = args[0];
+    const method = this.expressionEvaluator.getObjectProperty(decorator.getArguments()[0], 'method');
+    const name = method?.getText().split('.').pop()?.toUpperCase();
+    const supported: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'];
+
+    return supported.find(httpMethod => httpMethod === name) || 'GET';
+  }
 
-    // Handle string literal
-    if (firstArg.getKind() === SyntaxKind.StringLiteral) {
-      return firstArg.getText().replace(/['"]/g, '');
+  /**
+   * Extract route paths from decorator
+   * Constants, enum members and template expressions are resolved to their values
+   * Examples:
+   * - @Get(':id') -> [':id']
+   * - @Get(['profile', 'me']) -> ['profile', 'me']
+   * - @Get(UserRoutes.BY_ID) -> [':id']
+   * - @Get(`${ROUTES.PROFILE}/avatar`) -> ['profile/avatar']
+   * - @RequestMapping({ path: 'users', method: RequestMethod.GET }) -> ['users']
+   */
+  private extractRoutePaths(decorator: Decorator): string[] {
+    const firstArg = decorator.getArguments()[0];
+    const pathArg = firstArg && Node.isObjectLiteralExpression(firstArg)
+      ? this.expressionEvaluator.getObjectProperty(firstArg, 'path')
+      : firstArg;
+
+    if (!pathArg) {
+      return [''];
     }
 
-    // Handle template literal
-    if (firstArg.getKind() === SyntaxKind.TemplateExpression ||
-        firstArg.getKind() === SyntaxKind.NoSubstitutionTemplateLiteral) {
-      return firstArg.getText().replace(/`/g, '');
+    const paths = this.expressionEvaluator.evaluateConstantList(pathArg);
+    if (!paths || paths.length === 0) {
+      this.logger.warn(
+        `Could not resolve route path ${pathArg.getText()} of @${decorator.getName()}() ` +
+        `(${decorator.getSourceFile().getFilePath()}:${decorator.getStartLineNumber()}); documenting it at the controller path`,
+      );
+      return [''];
     }
 
-    return '';
+    return Array.from(new Set(paths));
   }
 
   /**
@@ -458,6 +512,15 @@ export class RouteScanner {
         // Skip @Body as it's handled separately
         if (decoratorName === 'Body') continue;
 
+        // Bare @Query() with a DTO class: one query parameter per property
+        if (decoratorName === 'Query' && decorator.getArguments().length === 0) {
+          const queryParams = this.expandQueryDto(param);
+          if (queryParams) {
+            params.push(...queryParams);
+            continue;
+          }
+        }
+
         if (['Param', 'Query', 'Headers'].includes(decoratorName)) {
           const paramMetadata = this.buildParamMetadata(param, decorator, decoratorName);
           if (paramMetadata) {
@@ -470,37 +533,154 @@ export class RouteScanner {
     return params;
   }
 
+  /**
+   * Expand a @Query() DTO parameter into one query parameter per DTO property
+   * Returns undefined when the parameter type is not a DTO class
+   */
+  private expandQueryDto(param: ParameterDeclaration): ParamMetadata[] | undefined {
+    const paramType = param.getType();
+    const dtoClass = paramType.isArray() ? undefined : this.findDtoClass(paramType.getText());
+    if (!dtoClass) return undefined;
+
+    const dto = this.analyzeDtoClass(dtoClass);
+
+    return dto.properties.map(property => ({
+      name: property.name,
+      in: 'query',
+      type: property.type,
+      required: property.required && !property.validators?.some(validator => validator.name === 'IsOptional'),
+      description: property.description,
+      validators: property.validators?.length ? property.validators : undefined,
+    }));
+  }
+
   /**
    * Build parameter metadata
+   * Pipes passed after the property name refine the documented type
+   * Examples:
+   * - @Param('id', ParseIntPipe) id: number -> integer path param
+   * - @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number -> optional integer, default 1
+   * - @Query('ids', new ParseArrayPipe({ items: Number })) ids: number[] -> comma-separated numbers
    */
-  private buildParamMetadata(param: any, decorator: Decorator, decoratorName: string): ParamMetadata | null {
+  private buildParamMetadata(param: ParameterDeclaration, decorator: Decorator, decoratorName: string): ParamMetadata | null {
     const args = decorator.getArguments();
-    const paramName = args.length > 0
-      ? args[0].getText().replace(/['"]/g, '')
-      : param.getName();
 
-    const paramType = param.getType();
-    const typeName = paramType.getText();
+    // The first argument is the property name, unless only pipes are given (e.g. @Query(ValidationPipe))
+    const propertyName = this.expressionEvaluator.evaluateString(args[0]);
+    const paramName = propertyName ?? param.getName();
+    const pipes = propertyName !== undefined ? args.slice(1) : args;
+
+    // @Headers() without a name injects all headers, which is not a single parameter
+    if (decoratorName === 'Headers' && propertyName === undefined) {
+      return null;
+    }
 
     // Determine parameter location
     let location: 'path' | 'query' | 'header' | 'body' = 'query';
     if (decoratorName === 'Param') location = 'path';
     else if (decoratorName === 'Headers') location = 'header';
 
+    let type = this.analyzeParamType(param.getType());
+    let defaultValue = this.expressionEvaluator.evaluateLiteral(param.getInitializer());
+    let arraySeparator: string | undefined;
+    let hasDefaultValuePipe = false;
+    let validated = false;
+
+    for (const pipe of pipes) {
+      const pipeName = (Node.isNewExpression(pipe) ? pipe.getExpression() : pipe).getText().split('.').pop();
+      const pipeArgs = Node.isNewExpression(pipe) ? pipe.getArguments() : [];
+
+      // Built-in Parse*Pipe pipes reject values they cannot parse with 400
+      if (pipeName?.startsWith('Parse')) {
+        validated = true;
+      }
+
+      switch (pipeName) {
+        case 'ParseIntPipe':
+          type = this.createPrimitiveType('integer');
+          break;
+
+        case 'ParseFloatPipe':
+          type = this.createPrimitiveType('number');
+          break;
+
+        case 'ParseBoolPipe':
+          type = this.createPrimitiveType('boolean');
+          break;
+
+        case 'ParseUUIDPipe':
+          type = this.createPrimitiveType('string', 'uuid');
+          break;
+
+        case 'ParseDatePipe':
+          type = this.createPrimitiveType('string', 'date-time');
+          break;
+
+        case 'ParseEnumPipe': {
+          const enumValues = this.expressionEvaluator.evaluateEnumValues(pipeArgs[0]);
+          if (enumValues.length > 0) {
+            // Numeric enums (enum Priority { Low, High }) are sent as numbers
+            const enumType = enumValues.every(value => typeof value === 'number') ? 'number' : 'string';
+            type = { type: enumType, isPrimitive: false, isArray: false, isEnum: true, isOptional: false, enumValues };
+          }
+          break;
+        }
+
+        case 'ParseArrayPipe': {
+          const itemsType = this.expressionEvaluator.getObjectProperty(pipeArgs[0], 'items')?.getText();
+          const elementType = this.createPrimitiveType(
+            itemsType === 'Number' ? 'number' : itemsType === 'Boolean' ? 'boolean' : 'string',
+          );
+          type = { ...elementType, type: `${elementType.type}[]`, isArray: true, elementType };
+          arraySeparator = this.expressionEvaluator.evaluateString(
+            this.expressionEvaluator.getObjectProperty(pipeArgs[0], 'separator'),
+          ) ?? ',';
+          break;
+        }
+
+        case 'DefaultValuePipe':
+          hasDefaultValuePipe = true;
+          defaultValue = this.expressionEvaluator.evaluateLiteral(pipeArgs[0]);
+          break;
+      }
+    }
+
+    const isOptional = param.hasQuestionToken() || param.hasInitializer() || hasDefaultValuePipe;
+
     return {
       name: paramName,
       in: location,
-      type: {
-        type: typeName,
-        isPrimitive: paramType.isString() || paramType.isNumber() || paramType.isBoolean(),
-        isArray: paramType.isArray(),
-        isEnum: paramType.isEnum(),
-        isOptional: param.hasQuestionToken() || param.hasInitializer(),
-      },
-      required: location === 'path',
+      type: { ...type, isOptional },
+      required: location === 'path' || !isOptional,
+      defaultValue,
+      arraySeparator,
+      validated: validated || undefined,
     };
   }
 
+  /**
+   * Analyze a path/query/header parameter type
+   * Types without an OpenAPI equivalent (any, ParsedQs, ...) are documented as strings
+   */
+  private analyzeParamType(paramType: Type): TypeMetadata {
+    const typeMetadata = this.dtoAnalyzer.analyzeType(paramType.getNonNullableType());
+
+    const isDescribed = typeMetadata.isPrimitive ||
+      typeMetadata.isEnum ||
+      (typeMetadata.isArray && typeMetadata.elementType) ||
+      typeMetadata.className ||
+      typeMetadata.properties;
+
+    return isDescribed ? typeMetadata : this.createPrimitiveType('string');
+  }
+
+  /**
+   * Create primitive type metadata
+   */
+  private createPrimitiveType(type: string, format?: string): TypeMetadata {
+    return { type, isPrimitive: true, isArray: false, isEnum: false, isOptional: false, format };
+  }
+
   /**
    * Extract guards from method decorators
    */
@@ -520,13 +700,105 @@ export class RouteScanner {
     return guards;
   }
 
+  /**
+   * Extract versions from @Version() decorator
+   * Examples:
+   * - @Version('2') -> ['2']
+   * - @Version(['1', '2']) -> ['1', '2']
+   * - @Version(VERSION_NEUTRAL) -> ['VERSION_NEUTRAL']
+   */
+  private extractVersions(method: MethodDeclaration): string[] {
+    const versionDecorator = method.getDecorators().find(dec => dec.getName() === 'Version');
+    if (!versionDecorator) return [];
+
+    return this.expressionEvaluator.evaluateVersions(versionDecorator.getArguments()[0]);
+  }
+
+  /**
+   * Extract success status code from @HttpCode()
+   * Examples:
+   * - @HttpCode(204) -> 204
+   * - @HttpCode(HttpStatus.ACCEPTED) -> 202
+   */
+  private extractHttpCode(method: MethodDeclaration): number | undefined {
+    const httpCodeDecorator = method.getDecorator('HttpCode');
+    return this.expressionEvaluator.evaluateHttpStatus(httpCodeDecorator?.getArguments()[0]);
+  }
+
+  /**
+   * Extract response headers from @Header(name, value) decorators
+   */
+  private extractResponseHeaders(method: MethodDeclaration): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    for (const decorator of method.getDecorators()) {
+      if (decorator.getName() !== 'Header') continue;
+
+      const [nameArg, valueArg] = decorator.getArguments();
+      const name = this.expressionEvaluator.evaluateString(nameArg);
+      if (name) {
+        headers[name] = this.expressionEvaluator.evaluateString(valueArg) ?? valueArg?.getText() ?? '';
+      }
+    }
+
+    return headers;
+  }
+
+  /**
+   * Extract redirect from @Redirect(url, statusCode)
+   * NestJS redirects with 302 Found when no status code is given
+   */
+  private extractRedirect(method: MethodDeclaration): RouteMetadata['redirect'] {
+    const redirectDecorator = method.getDecorator('Redirect');
+    if (!redirectDecorator) return undefined;
+
+    const [urlArg, statusArg] = redirectDecorator.getArguments();
+
+    return {
+      url: this.expressionEvaluator.evaluateString(urlArg) || undefined,
+      statusCode: this.expressionEvaluator.evaluateHttpStatus(statusArg) ?? 302,
+    };
+  }
+
+  /**
+   * Check if the handler returns void or Promise<void>
+   * Handlers writing to @Res() send their own body, so they never count as void
+   */
+  private returnsVoid(method: MethodDeclaration): boolean {
+    const usesResponse = method.getParameters().some(param =>
+      param.getDecorators().some(dec => ['Res', 'Response'].includes(dec.getName())),
+    );
+    if (usesResponse) return false;
+
+    const typeName = method.getReturnType().getText();
+    return typeName === 'void' || typeName === 'Promise<void>';
+  }
+
+  /**
+   * Extract the arguments of authorization decorators such as @Roles('admin')
+   * Method decorators override class decorators, like Reflector.getAllAndOverride
+   */
+  private extractAuthorizationValues(method: MethodDeclaration, decoratorNames: string[]): string[] {
+    const collect = (decorators: Decorator[]) => decorators
+      .filter(dec => decoratorNames.includes(dec.getName()))
+      .flatMap(dec => this.expressionEvaluator.evaluateStringList(dec.getArguments()));
+
+    const methodValues = collect(method.getDecorators());
+    if (methodValues.length > 0) {
+      return Array.from(new Set(methodValues));
+    }
+
+    const classDeclaration = method.getParent();
+    const classValues = Node.isClassDeclaration(classDeclaration) ? collect(classDeclaration.getDecorators()) : [];
+
+    return Array.from(new Set(classValues));
+  }
+
   /**
    * Check if route is public (no authentication)
    */
   private isPublicRoute(method: MethodDeclaration): boolean {
     const decorators = method.getDecorators();
-    return decorators.some(dec =>
-      ['Public', 'SkipAuth', 'SkipGuard', 'SkipAllGuards'].includes(dec.getName())
-    );
+    return decorators.some(dec => PUBLIC_DECORATORS.includes(dec.getName()));
   }
 }
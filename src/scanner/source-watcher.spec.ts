@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourceWatcher } from './source-watcher';
+
+describe('SourceWatcher', () => {
+  let sourcePath: string;
+  let watcher: SourceWatcher;
+
+  beforeEach(() => {
+    sourcePath = fs.mkdtempSync(path.join(os.tmpdir(), 'auto-docs-watch-'));
+    fs.mkdirSync(path.join(sourcePath, 'users'));
+  });
+
+  afterEach(() => {
+    watcher?.stop();
+    fs.rmSync(sourcePath, { recursive: true, force: true });
+  });
+
+  const waitForChanges = () => new Promise<string[]>(resolve => {
+    watcher = new SourceWatcher(sourcePath, resolve, 100);
+    watcher.start();
+  });
+
+  it('should report changed source files once after the debounce delay', async () => {
+    const changes = waitForChanges();
+
+    fs.writeFileSync(path.join(sourcePath, 'users', 'users.controller.ts'), 'export class UsersController {}');
+    fs.writeFileSync(path.join(sourcePath, 'users', 'user.dto.ts'), 'export class UserDto {}');
+    fs.writeFileSync(path.join(sourcePath, 'users', 'notes.txt'), 'ignored');
+
+    expect((await changes).sort()).toEqual([
+      path.join(sourcePath, 'users', 'user.dto.ts'),
+      path.join(sourcePath, 'users', 'users.controller.ts'),
+    ]);
+  });
+
+  it('should watch directories created after start without recursive watching', async () => {
+    const changes = new Promise<string[]>(resolve => {
+      watcher = new SourceWatcher(sourcePath, resolve, 200);
+      // Fallback used when recursive fs.watch is unavailable
+      (watcher as any).watchDirectoryTree(sourcePath);
+    });
+
+    const billingPath = path.join(sourcePath, 'billing');
+    fs.mkdirSync(billingPath);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    fs.writeFileSync(path.join(billingPath, 'billing.controller.ts'), 'export class BillingController {}');
+
+    expect(await changes).toEqual([path.join(billingPath, 'billing.controller.ts')]);
+    expect((watcher as any).watchers.has(billingPath)).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Source files whose changes affect the documentation (code and module markdown docs)
+ */
+const WATCHED_FILE_PATTERN = /\.(ts|md)$/;
+
+export class SourceWatcher {
+  private readonly logger = new Logger(SourceWatcher.name);
+  private readonly sourcePath: string;
+  private watchers: Map<string, fs.FSWatcher> = new Map();
+  private changedFiles: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    sourcePath: string,
+    private readonly onChange: (filePaths: string[]) => void,
+    private readonly debounceMs = 300,
+  ) {
+    this.sourcePath = path.resolve(sourcePath);
+  }
+
+  /**
+   * Start watching the source directory
+   * Changes are collected and reported once no file changed for debounceMs
+   */
+  start(): void {
+    try {
+      this.watch(this.sourcePath, { recursive: true });
+    } catch (error) {
+      // Recursive watching is unavailable on Linux before Node 20, so watch every directory
+      this.watchDirectoryTree(this.sourcePath);
+    }
+  }
+
+  /**
+   * Stop watching and drop changes that were not reported yet
+   */
+  stop(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.watchers.clear();
+    this.timer = null;
+    this.changedFiles.clear();
+  }
+
+  /**
+   * Watch a directory and record changed files relative to it
+   */
+  private watch(directory: string, options: fs.WatchOptions = {}): void {
+    const watcher = fs.watch(directory, options, (eventType, fileName) => {
+      if (!fileName) return;
+
+      const filePath = path.join(directory, fileName.toString());
+
+      // Without recursive watching, directories created later (e.g. a new feature folder)
+      // need their own watcher, and removed ones release theirs
+      if (!options.recursive && eventType === 'rename') {
+        if (this.isDirectory(filePath)) {
+          if (!this.watchers.has(filePath)) this.watchDirectoryTree(filePath, true);
+          return;
+        }
+        this.unwatchDirectoryTree(filePath);
+      }
+
+      this.handleChange(filePath);
+    });
+
+    watcher.on('error', error => this.logger.warn(`Stopped watching ${directory}: ${error.message}`));
+    this.watchers.set(directory, watcher);
+  }
+
+  /**
+   * Watch a directory and its subdirectories one by one
+   * Files of directories created after start() are reported as changed
+   */
+  private watchDirectoryTree(directory: string, reportFiles = false): void {
+    try {
+      this.watch(directory);
+
+      for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        const entryPath = path.join(directory, entry.name);
+
+        if (entry.isDirectory() && entry.name !== 'node_modules') {
+          this.watchDirectoryTree(entryPath, reportFiles);
+        } else if (reportFiles && entry.isFile()) {
+          this.handleChange(entryPath);
+        }
+      }
+    } catch (error) {
+      // The directory was removed before it could be watched
+      this.unwatchDirectoryTree(directory);
+    }
+  }
+
+  /**
+   * Stop watching a removed directory and its subdirectories
+   */
+  private unwatchDirectoryTree(directory: string): void {
+    for (const [watchedDirectory, watcher] of this.watchers) {
+      if (watchedDirectory === directory || watchedDirectory.startsWith(directory + path.sep)) {
+        watcher.close();
+        this.watchers.delete(watchedDirectory);
+      }
+    }
+  }
+
+  /**
+   * Check if a path is an existing directory
+   */
+  private isDirectory(filePath: string): boolean {
+    return fs.statSync(filePath, { throwIfNoEntry: false })?.isDirectory() ?? false;
+  }
+
+  /**
+   * Record a changed file and restart the debounce timer
+   */
+  private handleChange(filePath: string): void {
+    if (!WATCHED_FILE_PATTERN.test(filePath)) return;
+
+    this.changedFiles.add(filePath);
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.timer = setTimeout(() => {
+      const filePaths = Array.from(this.changedFiles);
+      this.changedFiles.clear();
+      this.timer = null;
+      this.onChange(filePaths);
+    }, this.debounceMs);
+  }
+}
@@ -1,7 +1,14 @@
 import { PropertyDeclaration, Decorator } from 'ts-morph';
 import { ValidatorMetadata } from '../interfaces';
+import { ExpressionEvaluator } from './expression-evaluator';
 
 export class ValidatorExtractor {
+  private expressionEvaluator: ExpressionEvaluator;
+
+  constructor() {
+    this.expressionEvaluator = new ExpressionEvaluator();
+  }
+
   /**
    * Extract validation decorators from a property
    */
@@ -105,11 +112,11 @@ export class ValidatorExtractor {
       case 'IsEnum':
         const enumArg = args[0];
         if (enumArg) {
-          const enumValues = this.extractEnumValues(enumArg);
+          const enumValues = this.expressionEvaluator.evaluateEnumValues(enumArg);
           return {
             name,
             args: [enumArg.getText()],
-            constraints: { enum: enumValues },
+            constraints: enumValues.length > 0 ? { enum: enumValues } : {},
           };
         }
         return { name, constraints: {} };
@@ -163,18 +170,4 @@ export class ValidatorExtractor {
 
     return isNaN(num) ? text : num;
   }
-
-  /**
-   * Extract enum values from enum argument
-   */
-  private extractEnumValues(enumArg: any): any[] {
-    try {
-      const enumText = enumArg.getText();
-      // This is a simplified extraction - in reality, you'd need to
-      // evaluate the enum type, but that requires more complex AST traversal
-      return [enumText];
-    } catch (error) {
-      return [];
-    }
-  }
 }
@@ -1,8 +1,14 @@
-import { Controller, Get, Res, Inject } from '@nestjs/common';
+import { Controller, Get, Sse, Res, Inject, Param, NotFoundException, Type, MessageEvent } from '@nestjs/common';
 import { Response } from 'express';
+import { Observable, map } from 'rxjs';
 import { AutoDocsService } from '../module/auto-docs.service';
 import { AutoDocsOptions } from '../interfaces/options.interface';
 
+/**
+ * Serves the Scalar UI, OpenAPI specs, stats, rescan and update stream endpoints
+ * Handlers have no route decorators: their paths come from docsPath/specPath
+ * (see createScalarController and registerDocsRoutes)
+ */
 @Controller()
 export class ScalarController {
   constructor(
@@ -13,10 +19,9 @@ export class ScalarController {
   /**
    * Serve Scalar UI HTML page
    */
-  @Get('docs')
   getScalarUI(@Res() res: Response) {
     const specUrl = this.options.specPath || '/docs-json';
-    const html = this.generateScalarHtml(specUrl);
+    const html = this.generateScalarHtml(specUrl, this.autoDocsService.getVersions());
 
     res.setHeader('Content-Type', 'text/html');
     res.send(html);
@@ -25,17 +30,28 @@ export class ScalarController {
   /**
    * Serve OpenAPI specification JSON
    */
-  @Get('docs-json')
   getOpenApiSpec(@Res() res: Response) {
     const spec = this.autoDocsService.getOpenApiSpec();
     res.setHeader('Content-Type', 'application/json');
     res.send(spec);
   }
 
+  /**
+   * Serve OpenAPI specification JSON of a single API version (e.g. {specPath}/v1)
+   */
+  getVersionedOpenApiSpec(@Param('version') version: string, @Res() res: Response) {
+    const spec = this.autoDocsService.getVersionedSpec(version);
+    if (!spec) {
+      throw new NotFoundException(`API version '${version}' not found`);
+    }
+
+    res.setHeader('Content-Type', 'application/json');
+    res.send(spec);
+  }
+
   /**
    * Get documentation statistics
    */
-  @Get('docs/stats')
   getStats() {
     return this.autoDocsService.getStats();
   }
@@ -43,7 +59,6 @@ export class ScalarController {
   /**
    * Trigger manual rescan (development only)
    */
-  @Get('docs/rescan')
   async rescan() {
     if (process.env.NODE_ENV === 'production') {
       return {
@@ -59,10 +74,19 @@ export class ScalarController {
     };
   }
 
+  /**
+   * Stream spec updates to open documentation pages (server-sent events)
+   */
+  events(): Observable<MessageEvent> {
+    return this.autoDocsService.getUpdates().pipe(
+      map(scanTime => ({ type: 'spec-updated', data: { lastScanTime: scanTime.toISOString() } })),
+    );
+  }
+
   /**
    * Generate Scalar HTML page
    */
-  private generateScalarHtml(specUrl: string): string {
+  private generateScalarHtml(specUrl: string, versions: string[] = []): string {
     const theme = this.options.theme || {};
     const primaryColor = theme.primaryColor || '#00f2ff';
     const darkMode = theme.darkMode !== false;
@@ -449,9 +473,37 @@ export class ScalarController {
     #clear-custom-url:hover {
       background: ${darkMode ? '#333333' : '#e0e0e0'};
     }
+
+    /* Version Switcher */
+    #version-switcher {
+      position: fixed;
+      top: 12px;
+      right: 16px;
+      z-index: 10000;
+      padding: 8px 12px;
+      border-radius: 8px;
+      border: 1px solid ${this.hexToRgba(primaryColor, 0.5)};
+      background: ${darkMode ? '#1e1e1e' : '#ffffff'};
+      color: ${darkMode ? '#ffffff' : '#333333'};
+      font-size: 13px;
+      font-weight: 600;
+      cursor: pointer;
+      outline: none;
+      box-shadow: 0 2px 10px ${this.hexToRgba(primaryColor, 0.2)};
+    }
+
+    #version-switcher:focus {
+      border-color: ${primaryColor};
+    }
   </style>
 </head>
 <body>
+  ${versions.length > 0 ? `<!-- API Version Switcher -->
+  <select id="version-switcher" title="API Version">
+    ${versions.map(version => `<option value="${this.escapeHtml(version)}">${this.escapeHtml(version.toUpperCase())}</option>`).join('')}
+    <option value="all">All versions</option>
+  </select>` : ''}
+
   <!-- Custom Domain Floating Action Button -->
   <div id="custom-domain-fab" title="Custom Server URL">
     <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="white" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
@@ -496,8 +548,28 @@ export class ScalarController {
     // Try to load saved server URL from localStorage (if persistence is enabled)
     const savedServerUrl = PERSIST_ENABLED ? localStorage.getItem(STORAGE_KEY) : null;
 
+    // Versioned APIs get one spec per version (latest by default, 'all' for the combined spec)
+    const VERSIONS = ${JSON.stringify(versions)};
+    const requestedVersion = new URLSearchParams(window.location.search).get('version');
+    const selectedVersion = VERSIONS.indexOf(requestedVersion) !== -1 || requestedVersion === 'all'
+      ? requestedVersion
+      : VERSIONS[VERSIONS.length - 1];
+    const SPEC_URL = selectedVersion && selectedVersion !== 'all'
+      ? '${specUrl.replace(/\/$/, '')}/' + selectedVersion
+      : '${specUrl}';
+
+    const versionSwitcher = document.getElementById('version-switcher');
+    if (versionSwitcher) {
+      versionSwitcher.value = selectedVersion;
+      versionSwitcher.addEventListener('change', function(e) {
+        const url = new URL(window.location.href);
+        url.searchParams.set('version', e.target.value);
+        window.location.href = url.toString();
+      });
+    }
+
     // Fetch and modify the spec to include custom server
-    fetch('${specUrl}')
+    fetch(SPEC_URL)
       .then(function(response) { return response.json(); })
       .then(function(spec) {
         // Add custom server URL if it exists
@@ -927,6 +999,14 @@ export class ScalarController {
       }, 1000); // Initial delay to let Scalar load
     })();
   </script>
+  ${this.options.watchMode ? `
+  <script>
+    // Watch mode: reload when the spec is regenerated after source changes
+    const updates = new EventSource(${JSON.stringify(`${(this.options.docsPath || '/docs').replace(/\/+$/, '')}/events`)});
+    updates.addEventListener('spec-updated', function() {
+      location.reload();
+    });
+  </script>` : ''}
 </body>
 </html>
     `.trim();
@@ -968,3 +1048,45 @@ export class ScalarController {
     return `rgba(${r}, ${g}, ${b}, ${alpha})`;
   }
 }
+
+/**
+ * Create a ScalarController subclass for one AutoDocsModule registration
+ * Each registration gets its own class so route paths never leak between modules
+ */
+export function createScalarController(): Type<ScalarController> {
+  class AutoDocsScalarController extends ScalarController {}
+  return AutoDocsScalarController;
+}
+
+/**
+ * Register the documentation routes of a controller from docsPath/specPath
+ * Must run before the application registers its routes (NestJS registers routes
+ * after all providers are resolved, so forRootAsync can call this from its options factory)
+ */
+export function registerDocsRoutes(controller: Type<ScalarController>, options: AutoDocsOptions): void {
+  const docsPath = (options.docsPath || '/docs').replace(/\/+$/, '') || '/';
+  const specPath = (options.specPath || '/docs-json').replace(/\/+$/, '') || '/';
+  const subPath = (base: string, path: string) => `${base === '/' ? '' : base}/${path}`;
+
+  const routes: Array<[keyof ScalarController, string, (path: string) => MethodDecorator]> = [
+    ['getScalarUI', docsPath, Get],
+    ['getOpenApiSpec', specPath, Get],
+    ['getVersionedOpenApiSpec', subPath(specPath, ':version'), Get],
+    ['getStats', subPath(docsPath, 'stats'), Get],
+    ['rescan', subPath(docsPath, 'rescan'), Get],
+    ['events', subPath(docsPath, 'events'), Sse],
+  ];
+
+  for (const [methodName, path, routeDecorator] of routes) {
+    // Route metadata is stored on the handler function, so give the subclass its own handler
+    const baseHandler = ScalarController.prototype[methodName] as (...args: any[]) => any;
+    const handler = function (this: ScalarController, ...args: any[]) {
+      return baseHandler.apply(this, args);
+    };
+    Object.defineProperty(handler, 'name', { value: methodName });
+
+    const descriptor: PropertyDescriptor = { value: handler, writable: true, configurable: true };
+    routeDecorator(path)(controller.prototype, methodName, descriptor);
+    Object.defineProperty(controller.prototype, methodName, descriptor);
+  }
+}
@@ -0,0 +1,49 @@
+import { globToRegExp, matchesGlob } from './glob';
+
+describe('glob', () => {
+  describe('globToRegExp', () => {
+    it('should match single path segments with * and ?', () => {
+      expect(globToRegExp('src/*.ts').test('src/main.ts')).toBe(true);
+      expect(globToRegExp('src/*.ts').test('src/users/users.ts')).toBe(false);
+      expect(globToRegExp('v?/*').test('v1/users')).toBe(true);
+    });
+
+    it('should match any number of directories with **', () => {
+      const regex = globToRegExp('src/**/*.controller.ts');
+
+      expect(regex.test('src/users.controller.ts')).toBe(true);
+      expect(regex.test('src/admin/users/users.controller.ts')).toBe(true);
+      expect(regex.test('src/admin/users/users.service.ts')).toBe(false);
+    });
+
+    it('should match brace alternatives', () => {
+      const regex = globToRegExp('src/{admin,billing}/**');
+
+      expect(regex.test('src/admin/admin.controller.ts')).toBe(true);
+      expect(regex.test('src/billing/invoices/invoices.controller.ts')).toBe(true);
+      expect(regex.test('src/users/users.controller.ts')).toBe(false);
+    });
+
+    it('should escape regex characters', () => {
+      expect(globToRegExp('src/(legacy)/a+b.ts').test('src/(legacy)/a+b.ts')).toBe(true);
+      expect(globToRegExp('src/a.ts').test('src/abts')).toBe(false);
+    });
+  });
+
+  describe('matchesGlob', () => {
+    it('should match relative patterns against trailing segments of absolute paths', () => {
+      expect(matchesGlob('/app/src/billing/invoices.controller.ts', 'src/billing/*.controller.ts')).toBe(true);
+      expect(matchesGlob('/app/src/billing/invoices.controller.ts', './src/billing/**')).toBe(true);
+      expect(matchesGlob('/app/src/users/users.controller.ts', 'src/billing/**')).toBe(false);
+    });
+
+    it('should match absolute patterns against the whole path', () => {
+      expect(matchesGlob('/app/src/users/users.controller.ts', '/app/src/**')).toBe(true);
+      expect(matchesGlob('/other/app/src/users/users.controller.ts', '/app/src/**')).toBe(false);
+    });
+
+    it('should normalize Windows separators', () => {
+      expect(matchesGlob('C:\\app\\src\\admin\\admin.controller.ts', '**/admin/*.controller.ts')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Convert a glob pattern to a regular expression
+ * - `**` matches any number of directories
+ * - `*` matches anything but `/`
+ * - `?` matches one character but `/`
+ * - `{a,b}` matches either alternative
+ * Examples:
+ * - 'src/billing/**' matches 'src/billing/invoices/invoices.controller.ts'
+ * - '**\/*.admin.controller.ts' matches 'src/users/users.admin.controller.ts'
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // '**/' also matches no directory at all
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braceDepth++;
+    } else if (char === '}' && braceDepth > 0) {
+      source += ')';
+      braceDepth--;
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check if a file path matches a glob pattern
+ * Absolute paths match relative patterns by their trailing segments, so
+ * '/app/src/billing/invoices.controller.ts' matches 'src/billing/*.controller.ts'
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  const normalizedPath = filePath.replace(/\\/g, '/');
+  const normalizedPattern = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  const regex = globToRegExp(normalizedPattern);
+
+  if (normalizedPattern.startsWith('/') || normalizedPattern.startsWith('**')) {
+    return regex.test(normalizedPath);
+  }
+
+  const segments = normalizedPath.split('/');
+  return segments.some((_, index) => regex.test(segments.slice(index).join('/')));
+}